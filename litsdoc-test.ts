@@ -1,14 +1,17 @@
 #!/usr/bin/env -S deno test --allow-read --allow-run --allow-write
 
-import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import { assertSnapshot } from "https://deno.land/std@0.224.0/testing/snapshot.ts";
 
+const LITSDOC = new URL("./litsdoc.ts", import.meta.url).pathname;
+
 /**
- * Helper function to run literate-code-ts and capture output
+ * Helper function to run litsdoc with exactly the given arguments
  */
-async function runLiterateCodeTs(args: string[]): Promise<{ code: number; output: string; stderr: string }> {
-  const command = new Deno.Command("./literate-code-ts.ts", {
-    args: [...args, "--stdout"],
+async function runCommand(args: string[], cwd?: string): Promise<{ code: number; output: string; stderr: string }> {
+  const command = new Deno.Command(LITSDOC, {
+    args,
+    cwd,
     stdout: "piped",
     stderr: "piped",
   });
@@ -22,12 +25,62 @@ async function runLiterateCodeTs(args: string[]): Promise<{ code: number; output
   };
 }
 
+/**
+ * Helper function to run litsdoc and capture output. Git detection and
+ * the build cache are turned off so the output doesn't depend on the
+ * checkout or on earlier runs.
+ */
+async function runLitsdoc(args: string[], cwd?: string): Promise<{ code: number; output: string; stderr: string }> {
+  return await runCommand([...args, "--stdout", "--no-git", "--no-cache"], cwd);
+}
+
+interface JsonBlock {
+  type: "comment" | "code";
+  content: string;
+  language?: string;
+  lineStart: number;
+  lineEnd: number;
+  collapsed?: boolean;
+  section?: { name: string; order?: string };
+  defines?: string[];
+}
+
+/**
+ * Helper function to parse files with `--emit-json` and return the blocks
+ * of each file
+ */
+async function parseBlocks(args: string[], cwd?: string): Promise<{ fileName: string; blocks: JsonBlock[] }[]> {
+  const { code, output, stderr } = await runLitsdoc([...args, "--emit-json", "-"], cwd);
+  assertEquals(code, 0, `Command failed with code ${code}. Stderr: ${stderr}`);
+  return JSON.parse(output).files;
+}
+
+/**
+ * Helper function to write files into a fresh temporary directory
+ */
+async function writeFiles(files: Record<string, string>): Promise<string> {
+  const dir = await Deno.makeTempDir({ prefix: "litsdoc-test-" });
+  for (const [name, content] of Object.entries(files)) {
+    const path = `${dir}/${name}`;
+    await Deno.mkdir(path.slice(0, path.lastIndexOf("/")), { recursive: true });
+    await Deno.writeTextFile(path, content);
+  }
+  return dir;
+}
+
+/**
+ * Shorthand for the kind and line range of each block
+ */
+function describeBlocks(blocks: JsonBlock[]): string[] {
+  return blocks.map(block => `${block.type} ${block.lineStart}-${block.lineEnd}`);
+}
+
 /**
  * Basic snapshot test for hello-world.c
  * This captures the complete HTML output as a snapshot
  */
 Deno.test("hello-world.c basic output", async (t) => {
-  const { code, output, stderr } = await runLiterateCodeTs(["tests/c/hello-world.c"]);
+  const { code, output, stderr } = await runLitsdoc(["tests/c/hello-world.c"]);
   
   assertEquals(code, 0, `Command failed with code ${code}. Stderr: ${stderr}`);
   
@@ -38,7 +91,7 @@ Deno.test("hello-world.c basic output", async (t) => {
  * Test with custom title and description
  */
 Deno.test("hello-world.c with custom title and description", async (t) => {
-  const { code, output, stderr } = await runLiterateCodeTs([
+  const { code, output, stderr } = await runLitsdoc([
     "tests/c/hello-world.c",
     "--title", "Custom Test Title",
     "--description", "This is a **test** with *markdown* support!"
@@ -53,7 +106,7 @@ Deno.test("hello-world.c with custom title and description", async (t) => {
  * Test with URL linking
  */
 Deno.test("hello-world.c with code URL", async (t) => {
-  const { code, output, stderr } = await runLiterateCodeTs([
+  const { code, output, stderr } = await runLitsdoc([
     "tests/c/hello-world.c",
     "--code-url", "https://github.com/example/repo/tree/main/"
   ]);
@@ -67,7 +120,7 @@ Deno.test("hello-world.c with code URL", async (t) => {
  * Test multi-file processing
  */
 Deno.test("multi-file processing", async (t) => {
-  const { code, output, stderr } = await runLiterateCodeTs([
+  const { code, output, stderr } = await runLitsdoc([
     "tests/c/hello-world.c",
     "tests/js/example.js",
     "--title", "Multi-file Project",
@@ -83,7 +136,7 @@ Deno.test("multi-file processing", async (t) => {
  * Test linker script (.ld) file processing with regex fallback
  */
 Deno.test("linker script processing", async (t) => {
-  const { code, output, stderr } = await runLiterateCodeTs([
+  const { code, output, stderr } = await runLitsdoc([
     "tests/ld/example.ld",
     "--title", "ARM Cortex-M Linker Script Test",
     "--description", "Testing **linker script** parsing with regex fallback"
@@ -98,8 +151,762 @@ Deno.test("linker script processing", async (t) => {
  * Test error handling - this should not create a snapshot since it fails
  */
 Deno.test("error handling for non-existent file", async () => {
-  const { code } = await runLiterateCodeTs(["nonexistent-file.c"]);
+  const { code } = await runLitsdoc(["nonexistent-file.c"]);
   
   // Should fail with non-zero exit code
   assertEquals(code, 1, "Expected command to fail for non-existent file");
-});
\ No newline at end of file
+});
+
+/**
+ * Regex fallback engine (languages without a tree-sitter grammar)
+ */
+Deno.test("regex fallback: Lua long and line comments", async () => {
+  const [file] = await parseBlocks(["tests/lua/example.lua"]);
+  
+  assertEquals(describeBlocks(file.blocks), [
+    "comment 1-5",
+    "comment 7-7",
+    "code 8-8",
+    "comment 10-10",
+    "code 11-16",
+    "comment 18-18",
+    "code 19-19",
+  ]);
+  assertEquals(file.blocks[0].content.split("\n")[0], "# A simple Lua literate program");
+  assertEquals(file.blocks[4].language, "lua");
+});
+
+Deno.test("regex fallback: shell shebang stays code and # lines merge", async () => {
+  const [file] = await parseBlocks(["tests/sh/example.sh"]);
+  
+  assertEquals(file.blocks[0], { type: "code", content: "#!/bin/sh", language: "shell", lineStart: 1, lineEnd: 1 });
+  assertEquals(file.blocks[1].type, "comment");
+  assertEquals(file.blocks[1].lineStart, 2);
+  assertEquals(file.blocks[1].lineEnd, 4);
+  // The trailing comment inside greet() stays in the code
+  const greet = file.blocks.find(block => block.content.startsWith("greet() {"));
+  assertStringIncludes(greet!.content, "# trailing comments stay with the code");
+});
+
+Deno.test("regex fallback: a block comment followed by code is code", async () => {
+  const dir = await writeFiles({
+    "example.lua": [
+      "--[[ sets x ]] local x = 1",
+      "-- A real comment",
+      "local y = 2",
+      "--[[ spans",
+      "-- not a line comment",
+      "]] local z = 3",
+      "-- Another comment",
+      "local w = 4",
+    ].join("\n"),
+  });
+  const [file] = await parseBlocks([`${dir}/example.lua`]);
+  
+  assertEquals(describeBlocks(file.blocks), ["code 1-1", "comment 2-2", "code 3-6", "comment 7-7", "code 8-8"]);
+  assertEquals(file.blocks[1].content, "A real comment");
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("regex fallback: --comment-syntax with nested block comments", async () => {
+  const dir = await writeFiles({
+    "example.ml": [
+      "(* Outer (* inner *) still prose *)",
+      "let x = 1",
+      "; line prose",
+      "let y = 2",
+    ].join("\n"),
+  });
+  const [file] = await parseBlocks([`${dir}/example.ml`, "--comment-syntax", ".ml:line=;|block=(* *)|nested|shiki=ocaml"]);
+  
+  assertEquals(describeBlocks(file.blocks), ["comment 1-1", "code 2-2", "comment 3-3", "code 4-4"]);
+  assertEquals(file.blocks[0].content, "Outer (* inner *) still prose");
+  await Deno.remove(dir, { recursive: true });
+});
+
+/**
+ * Trailing and nested comments
+ */
+Deno.test("trailing comments stay in the code", async () => {
+  const [file] = await parseBlocks(["tests/c/trailing-comments.c"]);
+  
+  assertEquals(describeBlocks(file.blocks), [
+    "comment 1-4",
+    "code 6-8",
+    "comment 10-11",
+    "code 12-12",
+    "comment 13-13",
+    "code 14-19",
+  ]);
+  assertStringIncludes(file.blocks[1].content, "static int counter = 0; // stays next to the declaration");
+  assertStringIncludes(file.blocks[5].content, "counter++; /* trailing block comment */");
+  assertStringIncludes(file.blocks[5].content, "/* leading block comment */ counter++;");
+});
+
+Deno.test("--nested-comments code keeps comments in function bodies", async () => {
+  const [file] = await parseBlocks(["tests/c/trailing-comments.c", "--nested-comments", "code"]);
+  
+  assertEquals(describeBlocks(file.blocks), ["comment 1-4", "code 6-8", "comment 10-11", "code 12-19"]);
+  assertStringIncludes(file.blocks[3].content, "  // Count twice\n");
+});
+
+Deno.test("--nested-comments rejects unknown values", async () => {
+  const { code, stderr } = await runLitsdoc(["tests/c/trailing-comments.c", "--nested-comments", "hidden"]);
+  
+  assertEquals(code, 1);
+  assertStringIncludes(stderr, "Invalid --nested-comments 'hidden'");
+});
+
+/**
+ * Directive comments
+ */
+const DIRECTIVES_EXAMPLE = [
+  "// litsdoc:ignore Copyright 2026",     // 1
+  "int a = 1;",
+  "",
+  "// litsdoc:hide-start",                // 4
+  "int secret = 2;",
+  "// litsdoc:hide-end",
+  "",
+  "// litsdoc:collapse Collapsed below",  // 8
+  "int b = 3;",
+  "",
+  "// @section setup 20",                 // 11
+  "// Setup prose",
+  "int c = 4;",
+  "",
+  "// litsdoc:bogus",                     // 15
+  "int d = 5;",
+].join("\n");
+
+Deno.test("directives: ignore, hide, collapse and sections", async () => {
+  const dir = await writeFiles({ "example.c": DIRECTIVES_EXAMPLE });
+  const { code, output, stderr } = await runLitsdoc([`${dir}/example.c`, "--emit-json", "-"]);
+  const [file] = JSON.parse(output).files;
+  const blocks: JsonBlock[] = file.blocks;
+  
+  assertEquals(code, 0);
+  assertEquals(describeBlocks(blocks), ["code 1-2", "comment 8-8", "code 9-9", "comment 11-12", "code 13-13", "code 16-16"]);
+  assertEquals(blocks[0].content, "// litsdoc:ignore Copyright 2026\nint a = 1;");
+  assertEquals(blocks.some(block => block.content.includes("secret")), false);
+  assertEquals(blocks[1].content, "Collapsed below");
+  assertEquals(blocks[2].collapsed, true);
+  assertEquals(blocks[3].section, { name: "setup", order: "20" });
+  assertEquals(blocks[3].content, "Setup prose");
+  assertStringIncludes(stderr, "example.c:15: unknown directive 'litsdoc:bogus'");
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("directives: prose can mention directives", async () => {
+  const dir = await writeFiles({
+    "example.c": [
+      "/* Mark a comment `litsdoc:ignore` to keep it in the code, and use",
+      " * `litsdoc:collapse` to fold the next block.",
+      " * ```",
+      " * litsdoc:hide-start",
+      " * ```",
+      " * Not litsdoc:ignore either. */",
+      "int a = 1;",
+    ].join("\n"),
+  });
+  const { output, stderr } = await runLitsdoc([`${dir}/example.c`, "--emit-json", "-"]);
+  const [file] = JSON.parse(output).files;
+  
+  assertEquals(describeBlocks(file.blocks), ["comment 1-6", "code 7-7"]);
+  assertEquals(file.blocks[0].content, [
+    "Mark a comment `litsdoc:ignore` to keep it in the code, and use",
+    "`litsdoc:collapse` to fold the next block.",
+    "```",
+    "litsdoc:hide-start",
+    "```",
+    "Not litsdoc:ignore either.",
+  ].join("\n"));
+  assertEquals(file.blocks[1].collapsed, undefined);
+  assertEquals(stderr, "");
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("directives: unmatched hide markers warn", async () => {
+  const dir = await writeFiles({
+    "example.c": "// litsdoc:hide-end\nint a = 1;\n\n// litsdoc:hide-start\nint b = 2;\n",
+  });
+  const { output, stderr } = await runLitsdoc([`${dir}/example.c`, "--emit-json", "-"]);
+  const [file] = JSON.parse(output).files;
+  
+  assertEquals(describeBlocks(file.blocks), ["code 2-2"]);
+  assertStringIncludes(stderr, "example.c:1: litsdoc:hide-end without a matching litsdoc:hide-start");
+  assertStringIncludes(stderr, "example.c:4: litsdoc:hide-start without a matching litsdoc:hide-end hides the rest of the file");
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("--doc-comments-only keeps plain comments in the code", async () => {
+  const dir = await writeFiles({
+    "example.c": "/** Documented */\nint a = 1;\n\n// Plain comment\nint b = 2;\n",
+  });
+  const [file] = await parseBlocks([`${dir}/example.c`, "--doc-comments-only"]);
+  
+  assertEquals(describeBlocks(file.blocks), ["comment 1-1", "code 2-5"]);
+  assertStringIncludes(file.blocks[1].content, "// Plain comment");
+  await Deno.remove(dir, { recursive: true });
+});
+
+/**
+ * Directory and glob inputs
+ */
+const SOURCE_TREE = {
+  ".gitignore": "build/\n*.gen.c\n",
+  "src/main.c": "int main(void) { return 0; }\n",
+  "src/alpha.c": "int alpha;\n",
+  "src/README.md": "Not source code\n",
+  "src/lexer.gen.c": "int generated;\n",
+  "src/util/strings.c": "int strings;\n",
+  "src/util/mod.rs": "pub fn util() {}\n",
+  "src/build/out.c": "int out;\n",
+  "include/api.h": "int api(void);\n",
+};
+
+Deno.test("directory inputs skip ignored and unsupported files", async () => {
+  const dir = await writeFiles(SOURCE_TREE);
+  await Deno.mkdir(`${dir}/.git`);
+  const files = await parseBlocks(["src/"], dir);
+  
+  assertEquals(files.map(file => file.fileName), ["src/main.c", "src/alpha.c", "src/util/mod.rs", "src/util/strings.c"]);
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("glob inputs match across directories", async () => {
+  const dir = await writeFiles(SOURCE_TREE);
+  await Deno.mkdir(`${dir}/.git`);
+  
+  const files = await parseBlocks(["src/**/*.c", "include/*.h"], dir);
+  assertEquals(files.map(file => file.fileName), ["src/main.c", "src/alpha.c", "src/util/strings.c", "include/api.h"]);
+  
+  const { code, stderr } = await runLitsdoc(["src/**/*.py"], dir);
+  assertEquals(code, 1);
+  assertStringIncludes(stderr, "No supported source files found in 'src/**/*.py'");
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("--order pins manifest entries first", async () => {
+  const dir = await writeFiles({
+    ...SOURCE_TREE,
+    "docs/order.txt": "# relative to the manifest\n../src/util/\n../include/api.h\n../src/missing.c\n",
+  });
+  await Deno.mkdir(`${dir}/.git`);
+  const { code, output, stderr } = await runLitsdoc(["src/", "include/", "--order", "docs/order.txt", "--emit-json", "-"], dir);
+  
+  assertEquals(code, 0);
+  assertEquals(JSON.parse(output).files.map((file: { fileName: string }) => file.fileName), [
+    "src/util/mod.rs",
+    "src/util/strings.c",
+    "include/api.h",
+    "src/main.c",
+    "src/alpha.c",
+  ]);
+  assertStringIncludes(stderr, "order entry");
+  assertStringIncludes(stderr, "missing.c' does not match any input file");
+  await Deno.remove(dir, { recursive: true });
+});
+
+/**
+ * Build cache
+ */
+Deno.test("build cache reuses unchanged files and prunes outdated entries", async () => {
+  const dir = await writeFiles({
+    "a.c": "// Alpha\nint a;\n",
+    "b.c": "// Beta\nint b;\n",
+  });
+  const build = async () => {
+    const { code, output, stderr } = await runCommand(["a.c", "b.c", "--no-git", "-o", "out.html"], dir);
+    assertEquals(code, 0, `Command failed with code ${code}. Stderr: ${stderr}`);
+    return output;
+  };
+  const entries = async () => (await Array.fromAsync(Deno.readDir(`${dir}/.litsdoc-cache`))).length;
+  
+  assertStringIncludes(await build(), "Cache: 0 of 2 file(s) unchanged");
+  assertEquals(await entries(), 2);
+  assertStringIncludes(await build(), "Cache: 2 of 2 file(s) unchanged");
+  
+  await Deno.writeTextFile(`${dir}/a.c`, "// Alpha, edited\nint a;\n");
+  assertStringIncludes(await build(), "Cache: 1 of 2 file(s) unchanged");
+  assertEquals(await entries(), 2);
+  assertStringIncludes(await Deno.readTextFile(`${dir}/out.html`), "Alpha, edited");
+  
+  const { output } = await runCommand(["--clean-cache"], dir);
+  assertStringIncludes(output, "Removed build cache");
+  assertEquals(await Deno.stat(`${dir}/.litsdoc-cache`).catch(() => undefined), undefined);
+  await Deno.remove(dir, { recursive: true });
+});
+
+/**
+ * Documentation diff between git revisions
+ */
+async function git(args: string[], cwd: string): Promise<string> {
+  const { code, stdout, stderr } = await new Deno.Command("git", { args, cwd, stdout: "piped", stderr: "piped" }).output();
+  assertEquals(code, 0, `git ${args.join(" ")} failed: ${new TextDecoder().decode(stderr)}`);
+  return new TextDecoder().decode(stdout).trim();
+}
+
+Deno.test("diff compares revisions named by number-like tags and SHAs", async () => {
+  const dir = await writeFiles({
+    "math.c": "// Adds numbers\nint add(int a, int b) { return a + b; }\n\n// Subtracts numbers\nint sub(int a, int b) { return a - b; }\n",
+  });
+  await git(["init", "--quiet"], dir);
+  await git(["-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "--quiet", "--allow-empty", "-m", "empty"], dir);
+  await git(["add", "math.c"], dir);
+  await git(["-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "--quiet", "-m", "one"], dir);
+  await git(["tag", "2e5"], dir);
+  await git(["tag", "0123"], dir);
+  await Deno.writeTextFile(`${dir}/math.c`, "// Adds two numbers\nint add(int a, int b) { return a + b; }\n\n// Subtracts numbers\nint sub(int a, int b) { return b - a; }\n");
+  await git(["-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "--quiet", "-am", "two"], dir);
+  const sha = await git(["rev-parse", "--short", "HEAD"], dir);
+  
+  const unchanged = await runCommand(["diff", "2e5", "0123", "math.c", "-o", "diff.html"], dir);
+  assertEquals(unchanged.code, 0, unchanged.stderr);
+  assertStringIncludes(unchanged.output, "Compared 1 files: no changes");
+  
+  const changed = await runCommand(["diff", "0123", sha, "math.c", "-o", "diff.html"], dir);
+  assertEquals(changed.code, 0, changed.stderr);
+  assertStringIncludes(changed.output, "Compared 1 files: 2 modified, 1 with a possibly stale comment");
+  const report = await Deno.readTextFile(`${dir}/diff.html`);
+  assertStringIncludes(report, "0123");
+  assertStringIncludes(report, sha);
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("diff needs two revisions", async () => {
+  const { code, stderr } = await runLitsdoc(["diff", "2e94257"]);
+  
+  assertEquals(code, 1);
+  assertStringIncludes(stderr, "diff needs two revisions");
+});
+
+/**
+ * Tree-sitter grammars
+ */
+Deno.test("Go: comments split declarations and function bodies", async () => {
+  const [file] = await parseBlocks(["tests/go/example.go"]);
+  
+  assertEquals(describeBlocks(file.blocks), [
+    "comment 1-3",
+    "code 4-6",
+    "comment 8-8",
+    "code 9-9",
+    "comment 11-14",
+    "code 15-15",
+    "comment 16-16",
+    "code 17-22",
+    "comment 24-24",
+    "code 25-27",
+  ]);
+  assertEquals(file.blocks[4].content, "This is a block comment\nexplaining the greetUser function");
+  assertEquals(file.blocks.filter(block => block.type === "code").map(block => block.language), ["go", "go", "go", "go", "go"]);
+});
+
+Deno.test("Java: Javadoc and comments inside a class", async () => {
+  const [file] = await parseBlocks(["tests/java/Example.java"]);
+  
+  assertEquals(describeBlocks(file.blocks), [
+    "comment 1-5",
+    "code 6-6",
+    "comment 7-7",
+    "code 8-8",
+    "comment 10-13",
+    "code 14-20",
+    "comment 22-22",
+    "code 23-26",
+  ]);
+  assertEquals(file.blocks[1].content, "public class Example {");
+  assertEquals(file.blocks[4].content.split("\n")[0], "Greets the user by name, falling back to the");
+});
+
+Deno.test("C++: header and implementation", async () => {
+  const [header, source] = await parseBlocks(["tests/cpp/example.hpp", "tests/cpp/example.cpp"]);
+  
+  assertEquals(describeBlocks(header.blocks), ["comment 1-5", "code 6-8", "comment 10-10", "code 11-12", "comment 13-13", "code 14-15"]);
+  assertEquals(header.blocks[3].language, "cpp");
+  assertEquals(header.blocks[5].content, "  std::string greet(const std::string &name) const;\n};");
+  assertEquals(describeBlocks(source.blocks), ["comment 1-5", "code 6-10", "comment 11-11", "code 12-17", "comment 19-19", "code 20-23"]);
+  assertEquals(source.blocks[0].content.split("\n")[0], "## Greeter implementation");
+});
+
+Deno.test("TypeScript: generics and decorators parse with the TypeScript grammar", async () => {
+  const [file] = await parseBlocks(["tests/ts/example.ts"]);
+  
+  assertEquals(describeBlocks(file.blocks), [
+    "comment 1-6",
+    "comment 8-8",
+    "code 9-11",
+    "comment 13-13",
+    "code 14-22",
+    "comment 23-26",
+    "code 27-31",
+    "comment 33-33",
+    "code 34-34",
+  ]);
+  assertEquals(file.blocks[2].language, "typescript");
+  assertEquals(file.blocks[2].defines, ["Greeting"]);
+  assertEquals(file.blocks[4].defines, ["logged", "Greeter"]);
+  assertEquals(file.blocks[6].content.split("\n")[0], "  @logged");
+});
+
+Deno.test("TSX: .tsx files use the TSX grammar, .mts and .cts TypeScript", async () => {
+  const dir = await writeFiles({
+    "app.tsx": "// The whole app\nconst App = () => <div>{/* inline */}</div>;\n",
+    "app.mts": "// A typed constant\nexport const answer: number = 42;\n",
+    "app.cts": "// Another one\nconst other = <number>answer;\n",
+  });
+  const [tsx, mts, cts] = await parseBlocks([`${dir}/app.tsx`, `${dir}/app.mts`, `${dir}/app.cts`]);
+  
+  assertEquals(describeBlocks(tsx.blocks), ["comment 1-1", "code 2-2"]);
+  assertEquals(tsx.blocks[1].language, "tsx");
+  assertEquals(tsx.blocks[1].defines, ["App"]);
+  assertEquals(mts.blocks[1].language, "typescript");
+  assertEquals(mts.blocks[1].defines, ["answer"]);
+  // A type assertion is only valid outside TSX
+  assertEquals(cts.blocks[1].language, "typescript");
+  assertEquals(cts.blocks[1].defines, ["other"]);
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("Python: docstrings are stripped and dedented, other strings stay code", async () => {
+  const [file] = await parseBlocks(["tests/py/example.py"]);
+  
+  assertEquals(describeBlocks(file.blocks), [
+    "comment 1-8",
+    "comment 10-10",
+    "code 11-14",
+    "comment 15-15",
+    "code 17-17",
+    "comment 18-21",
+    "comment 22-22",
+    "code 23-27",
+    "comment 30-30",
+    "code 31-32",
+  ]);
+  assertEquals(file.blocks[0].content, [
+    "# A simple Python literate program",
+    "",
+    "This demonstrates docstrings and `#` line comments in Python.",
+    "Docstrings become prose just like comments do:",
+    "",
+    "    indented example blocks keep their relative indentation",
+  ].join("\n"));
+  assertEquals(file.blocks[3].content, "A greeter remembers the default greeting.");
+  assertEquals(file.blocks[5].content, "Greets the user by name, falling back to the\ndefault greeting when no name is provided.");
+  assertStringIncludes(file.blocks[7].content, '        "Not a docstring: only the first statement counts"');
+});
+
+/**
+ * JSON intermediate representation
+ */
+Deno.test("--from-json renders the same HTML as the source files", async () => {
+  const dir = await Deno.makeTempDir({ prefix: "litsdoc-test-" });
+  const files = ["tests/c/hello-world.c", "tests/py/example.py"];
+  const emitted = await runCommand([...files, "--no-git", "--no-cache", "--emit-json", `${dir}/blocks.json`]);
+  assertEquals(emitted.code, 0, emitted.stderr);
+  
+  const direct = await runLitsdoc([...files, "--title", "Round trip"]);
+  const rendered = await runLitsdoc(["--from-json", `${dir}/blocks.json`, "--title", "Round trip"]);
+  assertEquals(rendered.code, 0, rendered.stderr);
+  assertEquals(rendered.output, direct.output);
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("--from-json rejects malformed documents", async () => {
+  const block = { type: "code", content: "int x;", language: "c", lineStart: 1, lineEnd: 1 };
+  const documents: [unknown, string][] = [
+    [{ format: "litsdoc", version: 2, files: [] }, "unsupported version 2 (this litsdoc reads version 1)"],
+    [{ format: "other", version: 1, files: [] }, '"format" must be "litsdoc"'],
+    [{ format: "litsdoc", version: 1, files: {} }, '"files" must be an array'],
+    [{ format: "litsdoc", version: 1, files: [{ fileName: "x.c", blocks: [{ ...block, lineEnd: "1" }] }] }, "files[0].blocks[0].lineEnd must be an integer"],
+    [{ format: "litsdoc", version: 1, files: [{ fileName: "x.c", blocks: [{ ...block, type: "prose" }] }] }, 'files[0].blocks[0].type must be "comment" or "code"'],
+  ];
+  const dir = await Deno.makeTempDir({ prefix: "litsdoc-test-" });
+  
+  for (const [document, message] of documents) {
+    await Deno.writeTextFile(`${dir}/blocks.json`, JSON.stringify(document));
+    const { code, stderr } = await runLitsdoc(["--from-json", `${dir}/blocks.json`]);
+    assertEquals(code, 1);
+    assertStringIncludes(stderr, `Invalid litsdoc JSON '${dir}/blocks.json': ${message}`);
+  }
+  
+  await Deno.writeTextFile(`${dir}/blocks.json`, "{ not json");
+  const { code, stderr } = await runLitsdoc(["--from-json", `${dir}/blocks.json`]);
+  assertEquals(code, 1);
+  assertStringIncludes(stderr, "Invalid litsdoc JSON");
+  await Deno.remove(dir, { recursive: true });
+});
+
+/**
+ * Markdown export
+ */
+Deno.test("markdown export", async (t) => {
+  const { code, output, stderr } = await runLitsdoc([
+    "tests/c/hello-world.c",
+    "tests/sh/example.sh",
+    "--format", "markdown",
+    "--code-url", "https://github.com/user/repo/blob/main/",
+  ]);
+  
+  assertEquals(code, 0, `Command failed with code ${code}. Stderr: ${stderr}`);
+  
+  await assertSnapshot(t, output);
+});
+
+/**
+ * Line numbers and source line links
+ */
+Deno.test("--line-numbers numbers each code block from its first source line", async () => {
+  const { code, output } = await runLitsdoc(["tests/c/hello-world.c", "--line-numbers"]);
+  
+  assertEquals(code, 0);
+  assertStringIncludes(output, "overflow-x-auto text-white line-numbers");
+  assertStringIncludes(output, "counter-reset: line 7;");
+  assertStringIncludes(output, "counter-reset: line 19;");
+  
+  const plain = await runLitsdoc(["tests/c/hello-world.c"]);
+  assertEquals(plain.output.includes("counter-reset: line"), false);
+});
+
+Deno.test("line links follow the code host's anchor style", async () => {
+  const cases: [string[], string][] = [
+    [["--code-url", "https://github.com/user/repo/blob/main/"], "https://github.com/user/repo/blob/main/tests/c/hello-world.c#L20-L21"],
+    [["--code-url", "https://gitlab.com/group/repo/-/blob/main/"], "https://gitlab.com/group/repo/-/blob/main/tests/c/hello-world.c#L20-21"],
+    [["--code-url", "https://codeberg.org/user/repo/src/branch/main/"], "https://codeberg.org/user/repo/src/branch/main/tests/c/hello-world.c#L20-L21"],
+    [["--code-url", "https://bitbucket.org/user/repo/src/main/"], "https://bitbucket.org/user/repo/src/main/tests/c/hello-world.c#lines-20:21"],
+    [["--code-url", "https://git.example.com/repo/", "--line-anchor", "gitlab"], "https://git.example.com/repo/tests/c/hello-world.c#L20-21"],
+    [["--code-url", "https://git.example.com/repo/", "--line-anchor", "#n{start}to{end}"], "https://git.example.com/repo/tests/c/hello-world.c#n20to21"],
+  ];
+  
+  for (const [args, url] of cases) {
+    const { code, output, stderr } = await runLitsdoc(["tests/c/hello-world.c", "--format", "markdown", ...args]);
+    assertEquals(code, 0, stderr);
+    assertStringIncludes(output, `[tests/c/hello-world.c, lines 20–21](${url})`);
+  }
+});
+
+Deno.test("--line-anchor rejects unknown styles", async () => {
+  const { code, stderr } = await runLitsdoc(["tests/c/hello-world.c", "--code-url", "https://example.com/", "--line-anchor", "sourcehut"]);
+  
+  assertEquals(code, 1);
+  assertStringIncludes(stderr, "Unknown line anchor style 'sourcehut'");
+});
+
+/**
+ * Git-detected code URLs
+ */
+Deno.test("code URLs are detected from the origin remote", async () => {
+  const dir = await writeFiles({ "src/a.c": "// Alpha\nint a;\n" });
+  await git(["init", "--quiet"], dir);
+  await git(["add", "."], dir);
+  await git(["-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "--quiet", "-m", "one"], dir);
+  await git(["remote", "add", "origin", "git@github.com:user/repo.git"], dir);
+  const sha = await git(["rev-parse", "HEAD"], dir);
+  
+  const remotes: [string, string][] = [
+    ["git@github.com:user/repo.git", `https://github.com/user/repo/blob/${sha}/`],
+    ["https://github.com/user/repo", `https://github.com/user/repo/blob/${sha}/`],
+    ["https://token@gitlab.com/group/sub/repo.git", `https://gitlab.com/group/sub/repo/-/blob/${sha}/`],
+    ["ssh://git@codeberg.org:2222/user/repo.git/", `https://codeberg.org/user/repo/src/commit/${sha}/`],
+  ];
+  for (const [remote, url] of remotes) {
+    await git(["remote", "set-url", "origin", remote], dir);
+    const { code, output } = await runCommand(["src/a.c", "--stdout", "--no-cache", "--format", "markdown"], dir);
+    assertEquals(code, 0);
+    assertStringIncludes(output, `## [a.c](${url}src/a.c)`);
+  }
+  
+  // Run from a subdirectory with an absolute path, the link still points into the repository
+  await Deno.mkdir(`${dir}/docs`);
+  const { output, stderr } = await runCommand([`${dir}/src/a.c`, "--stdout", "--no-cache", "--format", "markdown"], `${dir}/docs`);
+  assertStringIncludes(output, `(https://codeberg.org/user/repo/src/commit/${sha}/src/a.c#L2-L2)`);
+  assertStringIncludes(stderr, "isn't on any remote branch");
+  await Deno.remove(dir, { recursive: true });
+});
+
+/**
+ * Multi-page sites
+ */
+Deno.test("--output-dir writes a page per file with navigation and a search index", async () => {
+  const dir = await writeFiles({
+    "src/main.c": "// Main\nint main(void) { return helper(); }\n",
+    "src_main.c": "// Flat\nint helper(void) { return 0; }\n",
+    "z.c": "// Third\nint third;\n",
+  });
+  const { code, stderr } = await runCommand(["src/main.c", "src_main.c", "z.c", "--no-git", "--no-cache", "--output-dir", "site"], dir);
+  assertEquals(code, 0, stderr);
+  
+  const pages = (await Array.fromAsync(Deno.readDir(`${dir}/site`))).map(entry => entry.name).sort();
+  assertEquals(pages, ["index.html", "search-index.js", "src_main.c-2.html", "src_main.c.html", "z.c.html"]);
+  
+  const index = await Deno.readTextFile(`${dir}/site/index.html`);
+  assertStringIncludes(index, 'href="src_main.c.html"');
+  assertStringIncludes(index, 'href="src_main.c-2.html"');
+  
+  const middle = await Deno.readTextFile(`${dir}/site/src_main.c-2.html`);
+  assertStringIncludes(middle, 'href="src_main.c.html" class="text-blue-600 hover:text-blue-800 hover:underline">&larr; main.c</a>');
+  assertStringIncludes(middle, 'href="z.c.html" class="text-blue-600 hover:text-blue-800 hover:underline">z.c &rarr;</a>');
+  const first = await Deno.readTextFile(`${dir}/site/src_main.c.html`);
+  assertEquals(first.includes("&larr;"), false);
+  // Definitions on other pages link across pages
+  assertStringIncludes(first, '<a class="xref" href="src_main.c-2.html#src_main-c-2-L2">helper</a>');
+  
+  const search = await Deno.readTextFile(`${dir}/site/search-index.js`);
+  const entries = JSON.parse(search.replace(/^window\.LITSDOC_SEARCH = /, "").replace(/;\s*$/, ""));
+  assertEquals(entries[2], ["src_main.c-2.html", "src_main-c-2-L1", "src_main.c", "comment", "Flat"]);
+  assertEquals(entries[3], ["src_main.c-2.html", "src_main-c-2-L2", "src_main.c (line 2)", "code", "int helper void return"]);
+  await Deno.remove(dir, { recursive: true });
+});
+
+/**
+ * Cross-references
+ */
+Deno.test("cross-references link unique definitions within a language family", async () => {
+  const dir = await writeFiles({
+    "main.c": "// Calls `helper` and `dup`\nint main(void) { return helper() + dup(); }\n",
+    "lib.cpp": "// Defines the helper\nint helper(void) { return 0; }\n\n// One dup\nint dup(void) { return 1; }\n",
+    "other.c": "// Another dup\nint dup(void) { return 2; }\n",
+    "run.sh": "# Runs `helper`, which is not the C one\nhelper\n",
+  });
+  const { code, output, stderr } = await runLitsdoc(["main.c", "lib.cpp", "other.c", "run.sh"], dir);
+  assertEquals(code, 0, stderr);
+  
+  const links = [...output.matchAll(/<a class="xref" href="#(?!mobile-)([^"]+)">(.*?)<\/a>/g)].map(match => `${match[1]} ${match[2]}`);
+  assertEquals(links, [
+    'lib-cpp-L2 <code class="bg-gray-100 px-1 py-0.5 rounded text-sm font-mono">helper</code>',
+    "lib-cpp-L2 helper",
+    "main-c-L1 main.c:1",
+    "main-c-L2 main.c:2",
+  ]);
+  // `dup` is defined twice, so it is ambiguous and left alone
+  assertEquals(/<a class="xref"[^>]*>dup</.test(output), false);
+  
+  const unlinked = await runLitsdoc(["main.c", "lib.cpp", "--no-xref"], dir);
+  assertEquals(unlinked.output.includes('class="xref"'), false);
+  await Deno.remove(dir, { recursive: true });
+});
+
+/**
+ * Project config
+ */
+Deno.test("project config values apply unless given on the command line", async () => {
+  const dir = await writeFiles({
+    "src/a.c": "// Alpha\nint a;\n",
+    "src/b.c": "// Beta\nint b;\n",
+    "docs/litsdoc.json": JSON.stringify({
+      files: ["../src/a.c", { path: "../src/b.c", displayName: "Bee" }],
+      title: "Config title",
+      codeUrl: "https://example.com/repo/",
+      lineNumbers: true,
+    }),
+  });
+  
+  const fromConfig = await runLitsdoc(["--config", "docs/litsdoc.json"], dir);
+  assertEquals(fromConfig.code, 0, fromConfig.stderr);
+  assertStringIncludes(fromConfig.output, "<title>Config title</title>");
+  assertStringIncludes(fromConfig.output, "https://example.com/repo/src/a.c#L2-L2");
+  assertStringIncludes(fromConfig.output, "Bee");
+  assertStringIncludes(fromConfig.output, "line-numbers");
+  
+  const overridden = await runLitsdoc(["--config", "docs/litsdoc.json", "src/b.c", "--title", "CLI title", "--code-url", "https://example.org/"], dir);
+  assertEquals(overridden.code, 0, overridden.stderr);
+  assertStringIncludes(overridden.output, "<title>CLI title</title>");
+  assertStringIncludes(overridden.output, "https://example.org/src/b.c#L2-L2");
+  assertEquals(overridden.output.includes("Alpha"), false);
+  
+  // Found without --config when no files are named
+  await Deno.rename(`${dir}/docs/litsdoc.json`, `${dir}/litsdoc.json`);
+  await Deno.writeTextFile(`${dir}/litsdoc.json`, JSON.stringify({ files: ["src/a.c"], title: "Discovered" }));
+  const discovered = await runLitsdoc([], dir);
+  assertStringIncludes(discovered.output, "<title>Discovered</title>");
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("project config rejects unknown keys and wrong types", async () => {
+  const configs: [unknown, string][] = [
+    [{ files: ["a.c"], titel: "Typo" }, 'unknown key "titel"'],
+    [{ files: [{ path: "a.c", display: "A" }] }, `unknown key "display" for 'a.c'`],
+    [{ files: ["a.c"], title: 1 }, '"title" must be a string'],
+    [{ files: ["a.c"], toc: "no" }, '"toc" must be a boolean'],
+    [{ files: "a.c" }, '"files" must be an array'],
+    [{ files: [{ path: "a.c", exclude: [[1]] }] }, `"exclude" of 'a.c' must be an array of [start, end] line ranges`],
+    [{ files: [{ path: "a.c", language: "cobol" }] }, "unknown language 'cobol' for 'a.c'"],
+    [["a.c"], "expected an object"],
+  ];
+  const dir = await writeFiles({ "a.c": "int a;\n" });
+  
+  for (const [config, message] of configs) {
+    await Deno.writeTextFile(`${dir}/litsdoc.json`, JSON.stringify(config));
+    const { code, stderr } = await runLitsdoc(["--config", "litsdoc.json"], dir);
+    assertEquals(code, 1);
+    assertStringIncludes(stderr, `Invalid config 'litsdoc.json': ${message}`);
+  }
+  await Deno.remove(dir, { recursive: true });
+});
+
+/**
+ * Markdown in prose
+ */
+async function renderProse(lines: string[]): Promise<{ html: string; stderr: string }> {
+  const dir = await writeFiles({
+    "prose.c": ["/*", ...lines.map(line => ` * ${line}`.trimEnd()), " */", "int x;"].join("\n"),
+  });
+  const { code, output, stderr } = await runLitsdoc([`${dir}/prose.c`]);
+  await Deno.remove(dir, { recursive: true });
+  assertEquals(code, 0, `Command failed with code ${code}. Stderr: ${stderr}`);
+  
+  const start = output.indexOf('<div class="prose">') + '<div class="prose">'.length;
+  return { html: output.slice(start, output.indexOf("\n              </div>", start)).trim(), stderr };
+}
+
+Deno.test("fenced code in prose is highlighted", async (t) => {
+  const { html } = await renderProse([
+    "Fenced code keeps its language:",
+    "",
+    "```js",
+    "const answer = 42;",
+    "```",
+    "",
+    "and an untagged fence is in the file's:",
+    "",
+    "```",
+    "int y = 1;",
+    "```",
+  ]);
+  
+  await assertSnapshot(t, html);
+});
+
+Deno.test("math and diagrams in prose are rendered at build time", async (t) => {
+  const { html, stderr } = await renderProse([
+    "Inline math $e^{i\\pi} = -1$ costs more than $5, and display math:",
+    "",
+    "$$\\sum_{k=1}^{n} k$$",
+    "",
+    "```mermaid",
+    "graph LR",
+    "  A --> B",
+    "```",
+    "",
+    "```dot",
+    "digraph { a -> b }",
+    "```",
+  ]);
+  
+  assertEquals(stderr, "");
+  await assertSnapshot(t, html);
+});
+
+Deno.test("diagrams that fail to render fall back to highlighted code", async () => {
+  const { html, stderr } = await renderProse([
+    "```dot",
+    "digraph { a -> }",
+    "```",
+  ]);
+  
+  assertStringIncludes(stderr, "Warning: Cannot render dot diagram:");
+  assertEquals(html.includes('class="diagram'), false);
+  assertStringIncludes(html, '<pre class="text-sm p-2 rounded overflow-x-auto"');
+  assertStringIncludes(html, "digraph");
+});
@@ -1,4 +1,4 @@
-#!/usr/bin/env -S deno run --allow-read --allow-write --allow-env --allow-ffi
+#!/usr/bin/env -S deno run --allow-read --allow-write --allow-env --allow-ffi --allow-net=localhost --allow-run=git
 
 /**
  * # litsdoc
@@ -15,83 +15,443 @@
  * - **Syntax Highlighting**: VS Code-quality highlighting with Shiki
  */
 
+const LITSDOC_VERSION = '1.2.0';
+
 import Parser from "npm:tree-sitter@^0.21.0";
 import C from "npm:tree-sitter-c@^0.21.0";
 import JavaScript from "npm:tree-sitter-javascript@^0.21.0";
 import Rust from "npm:tree-sitter-rust@^0.21.0";
-import { codeToHtml } from "npm:shiki@^1.0.0";
-import { marked } from "npm:marked@^12.0.0";
+import Cpp from "npm:tree-sitter-cpp@^0.21.0";
+import Python from "npm:tree-sitter-python@^0.21.0";
+import Go from "npm:tree-sitter-go@^0.21.0";
+import Java from "npm:tree-sitter-java@^0.21.0";
+import TypeScript from "npm:tree-sitter-typescript@^0.21.0";
+import { bundledLanguages, bundledThemes, bundledThemesInfo, createHighlighter, type Highlighter, type ShikiTransformer } from "npm:shiki@^1.0.0";
+import { marked, type Tokens } from "npm:marked@^12.0.0";
+import katex from "npm:katex@^0.16.0";
+import { renderMermaidSVG } from "npm:beautiful-mermaid@^1.1.0";
+import { instance as createViz, type Viz } from "npm:@viz-js/viz@^3.0.0";
 import { parseArgs } from "jsr:@std/cli/parse-args";
 
 
 /**
- * ## Language Parser Mapping
+ * ## Language Registry
+ * 
+ * Every supported language is described by a single `LanguageDefinition`:
+ * the file extensions it claims, the tree-sitter grammar used to parse it,
+ * the AST node types that represent comments in that grammar, and the Shiki
+ * identifier used for syntax highlighting.
  * 
- * Maps file extensions to their corresponding tree-sitter parser.
  * Tree-sitter provides language-agnostic AST parsing, allowing us
  * to extract comments from any supported language without hardcoding
- * comment syntax.
- * 
- * Currently supports: C, C headers, JavaScript, TypeScript, ES modules, and Rust.
- * Python is ready to be added when its parser is imported.
- * Linker scripts (.ld) use regex-based comment extraction as fallback.
- */
-const LANGUAGE_MAP = {
-  '.c': C,
-  '.h': C,
-  '.js': JavaScript,
-  '.ts': JavaScript, // TypeScript uses same parser for comments
-  '.mjs': JavaScript,
-  '.rs': Rust,
-  '.ld': null, // Linker scripts use regex fallback
-  // '.py': Python,
+ * comment syntax. Languages without a grammar (`grammar: null`), such as
+ * linker scripts, shell scripts or SQL, fall back to regex-based comment
+ * extraction driven by their `commentSyntax`.
+ * 
+ * Extensions may also be exact file names for files such as `Makefile`
+ * that have no extension.
+ * 
+ * Some languages keep their prose outside of comment nodes. An optional
+ * `isDocString` predicate lets a language promote other nodes (such as
+ * Python docstrings) to comment blocks as well.
+ * 
+ * `functionNodeTypes` lists the nodes whose bodies count as function
+ * bodies, so that comments nested inside them can be kept in the code.
+ * `definitionNodeTypes` lists the top-level definitions (functions, types,
+ * constants) indexed for cross-references.
+ * 
+ * Currently supports: C, C++, JavaScript, TypeScript, Rust, Python, Go, Java
+ * and linker scripts. New languages can be plugged in with `registerLanguage`.
+ */
+export interface LanguageDefinition {
+  extensions: string[];
+  grammar: unknown | null;
+  commentNodeTypes: string[];
+  shikiLanguage: string;
+  isDocString?: (node: Parser.SyntaxNode) => boolean;
+  functionNodeTypes?: string[];
+  definitionNodeTypes?: string[];
+  commentSyntax?: CommentSyntax;
+}
+
+/**
+ * `CommentSyntax` describes comments for languages without a grammar:
+ * the line-comment prefixes, the block-comment delimiter pairs, and
+ * whether block comments may nest inside each other.
+ */
+export interface CommentSyntax {
+  line?: string[];
+  block?: [string, string][];
+  nested?: boolean;
+}
+
+const JS_FUNCTION_NODE_TYPES = [
+  'function_declaration', 'function_expression', 'arrow_function', 'method_definition',
+  'generator_function_declaration', 'generator_function',
+];
+
+const C_DEFINITION_NODE_TYPES = [
+  'function_definition', 'struct_specifier', 'union_specifier', 'enum_specifier',
+  'type_definition', 'init_declarator', 'preproc_def', 'preproc_function_def',
+];
+
+const JS_DEFINITION_NODE_TYPES = [
+  'function_declaration', 'generator_function_declaration', 'class_declaration', 'variable_declarator',
+];
+
+const TS_DEFINITION_NODE_TYPES = [
+  ...JS_DEFINITION_NODE_TYPES,
+  'abstract_class_declaration', 'interface_declaration', 'type_alias_declaration', 'enum_declaration',
+];
+
+const LANGUAGE_REGISTRY: Record<string, LanguageDefinition> = {
+  c: {
+    extensions: ['.c', '.h'],
+    grammar: C,
+    commentNodeTypes: ['comment'],
+    shikiLanguage: 'c',
+    functionNodeTypes: ['function_definition'],
+    definitionNodeTypes: C_DEFINITION_NODE_TYPES,
+  },
+  cpp: {
+    extensions: ['.cpp', '.cc', '.cxx', '.hpp', '.hh', '.hxx'],
+    grammar: Cpp,
+    commentNodeTypes: ['comment'],
+    shikiLanguage: 'cpp',
+    functionNodeTypes: ['function_definition', 'lambda_expression'],
+    definitionNodeTypes: [...C_DEFINITION_NODE_TYPES, 'class_specifier', 'alias_declaration'],
+  },
+  javascript: {
+    extensions: ['.js', '.mjs', '.cjs'],
+    grammar: JavaScript,
+    commentNodeTypes: ['comment'],
+    shikiLanguage: 'javascript',
+    functionNodeTypes: JS_FUNCTION_NODE_TYPES,
+    definitionNodeTypes: JS_DEFINITION_NODE_TYPES,
+  },
+  typescript: {
+    extensions: ['.ts', '.mts', '.cts'],
+    grammar: TypeScript.typescript,
+    commentNodeTypes: ['comment'],
+    shikiLanguage: 'typescript',
+    functionNodeTypes: JS_FUNCTION_NODE_TYPES,
+    definitionNodeTypes: TS_DEFINITION_NODE_TYPES,
+  },
+  tsx: {
+    extensions: ['.tsx'],
+    grammar: TypeScript.tsx,
+    commentNodeTypes: ['comment'],
+    shikiLanguage: 'tsx',
+    functionNodeTypes: JS_FUNCTION_NODE_TYPES,
+    definitionNodeTypes: TS_DEFINITION_NODE_TYPES,
+  },
+  rust: {
+    extensions: ['.rs'],
+    grammar: Rust,
+    commentNodeTypes: ['line_comment', 'block_comment'],
+    shikiLanguage: 'rust',
+    functionNodeTypes: ['function_item', 'closure_expression'],
+    definitionNodeTypes: [
+      'function_item', 'struct_item', 'enum_item', 'union_item', 'trait_item',
+      'type_item', 'const_item', 'static_item', 'macro_definition',
+    ],
+  },
+  python: {
+    extensions: ['.py', '.pyi'],
+    grammar: Python,
+    commentNodeTypes: ['comment'],
+    shikiLanguage: 'python',
+    isDocString: isPythonDocstring,
+    functionNodeTypes: ['function_definition', 'lambda'],
+    definitionNodeTypes: ['function_definition', 'class_definition', 'assignment'],
+  },
+  go: {
+    extensions: ['.go'],
+    grammar: Go,
+    commentNodeTypes: ['comment'],
+    shikiLanguage: 'go',
+    functionNodeTypes: ['function_declaration', 'method_declaration', 'func_literal'],
+    definitionNodeTypes: ['function_declaration', 'method_declaration', 'type_spec', 'const_spec', 'var_spec'],
+  },
+  java: {
+    extensions: ['.java'],
+    grammar: Java,
+    commentNodeTypes: ['line_comment', 'block_comment'],
+    shikiLanguage: 'java',
+    functionNodeTypes: ['method_declaration', 'constructor_declaration', 'lambda_expression'],
+    definitionNodeTypes: ['class_declaration', 'interface_declaration', 'enum_declaration', 'record_declaration'],
+  },
+  linkerscript: {
+    extensions: ['.ld'],
+    grammar: null, // Linker scripts use regex fallback
+    commentNodeTypes: [],
+    shikiLanguage: 'text', // No specific Shiki support for linker scripts yet
+    commentSyntax: { block: [['/*', '*/']] },
+  },
+  shell: {
+    extensions: ['.sh', '.bash', '.zsh'],
+    grammar: null,
+    commentNodeTypes: [],
+    shikiLanguage: 'shellscript',
+    commentSyntax: { line: ['#'] },
+  },
+  make: {
+    extensions: ['.mk', 'Makefile', 'makefile', 'GNUmakefile'],
+    grammar: null,
+    commentNodeTypes: [],
+    shikiLanguage: 'make',
+    commentSyntax: { line: ['#'] },
+  },
+  sql: {
+    extensions: ['.sql'],
+    grammar: null,
+    commentNodeTypes: [],
+    shikiLanguage: 'sql',
+    commentSyntax: { line: ['--'], block: [['/*', '*/']] },
+  },
+  lua: {
+    extensions: ['.lua'],
+    grammar: null,
+    commentNodeTypes: [],
+    shikiLanguage: 'lua',
+    commentSyntax: { line: ['--'], block: [['--[[', ']]']] },
+  },
+  yaml: {
+    extensions: ['.yml', '.yaml'],
+    grammar: null,
+    commentNodeTypes: [],
+    shikiLanguage: 'yaml',
+    commentSyntax: { line: ['#'] },
+  },
+  toml: {
+    extensions: ['.toml'],
+    grammar: null,
+    commentNodeTypes: [],
+    shikiLanguage: 'toml',
+    commentSyntax: { line: ['#'] },
+  },
+  assembly: {
+    extensions: ['.s', '.S', '.asm'],
+    grammar: null,
+    commentNodeTypes: [],
+    shikiLanguage: 'asm',
+    commentSyntax: { line: [';', '//'], block: [['/*', '*/']] },
+  },
 };
 
+/**
+ * ### Python Docstrings
+ * 
+ * A docstring is the first statement of a module, class or function body
+ * when that statement is a bare string expression. Comments don't count as
+ * statements, so they are skipped when looking for the first one.
+ */
+function isPythonDocstring(node: Parser.SyntaxNode): boolean {
+  if (node.type !== 'expression_statement' || node.namedChildCount !== 1 || node.firstNamedChild?.type !== 'string') {
+    return false;
+  }
+
+  const parent = node.parent;
+  const isBody = parent?.type === 'module' ||
+    (parent?.type === 'block' && ['class_definition', 'function_definition'].includes(parent.parent?.type ?? ''));
+  if (!parent || !isBody) {
+    return false;
+  }
+
+  const firstStatement = parent.namedChildren.find(child => child.type !== 'comment');
+  return firstStatement?.id === node.id;
+}
+
+/**
+ * Adds (or replaces) a language in the registry. Extensions claimed by the
+ * new definition are removed from any existing language so that the most
+ * recently registered language wins.
+ */
+export function registerLanguage(name: string, definition: LanguageDefinition): void {
+  for (const existing of Object.values(LANGUAGE_REGISTRY)) {
+    existing.extensions = existing.extensions.filter(ext => !definition.extensions.includes(ext));
+  }
+  LANGUAGE_REGISTRY[name] = definition;
+}
+
+/**
+ * Looks up the registered language for a file name by its extension.
+ * Returns `undefined` when no language claims the extension.
+ */
+function resolveLanguage(fileName: string): { name: string; definition: LanguageDefinition } | undefined {
+  const ext = getFileExtension(fileName);
+  const baseName = fileName.split('/').pop() || fileName;
+  for (const [name, definition] of Object.entries(LANGUAGE_REGISTRY)) {
+    if (definition.extensions.includes(ext) || definition.extensions.includes(baseName)) {
+      return { name, definition };
+    }
+  }
+  return undefined;
+}
+
 /**
  * ## Syntax Highlighting Configuration
  * 
- * Maps file extensions to Shiki language identifiers for syntax highlighting.
+ * Maps a registered language name to its Shiki language identifier.
  * Shiki uses VS Code's TextMate grammars, providing the same high-quality
  * syntax highlighting you see in Visual Studio Code.
  * 
+ * The language tag of a fenced code block in a comment may also be a file
+ * extension (`js`, `rs`) or a Shiki language name (`bash`, `json`).
+ * 
  * For languages without specific Shiki support (like linker scripts),
  * we fall back to 'text' for plain text display without errors.
  */
-const SHIKI_LANGUAGE_MAP: Record<string, string> = {
-  'c': 'c',
-  'h': 'c',
-  'js': 'javascript',
-  'ts': 'typescript',
-  'mjs': 'javascript',
-  'ld': 'text', // No specific Shiki support for linker scripts yet
-  'py': 'python',
-  'rs': 'rust',
-  'go': 'go',
-  'java': 'java',
-  'cpp': 'cpp',
-  'hpp': 'cpp',
-};
+function getShikiLanguage(language: string): string {
+  return LANGUAGE_REGISTRY[language]?.shikiLanguage ||
+    resolveLanguage(`.${language}`)?.definition.shikiLanguage ||
+    (language in bundledLanguages ? language : 'text');
+}
 
 /**
- * ## HTML Template
+ * ## Embedded Stylesheet
  * 
- * The base template for generated documentation. Uses Tailwind CSS via CDN
- * for styling, with placeholders for dynamic content:
- * - `{{TITLE}}`: Document title (shown in browser tab and header)
- * - `{{DESCRIPTION}}`: Markdown-processed description below title
- * - `{{CONTENT}}`: The main documentation content (comments and code)
+ * The markup uses Tailwind-style utility class names. Rather than loading
+ * Tailwind from a CDN at view time, this hand-written stylesheet defines
+ * exactly the utilities litsdoc emits (with Tailwind's values), plus a
+ * minimal reset. When adding a class to the generated markup, add its
+ * rule here as well.
+ * 
+ * Colours come from CSS variables set by the active theme, so e.g.
+ * `bg-white` is the theme's surface colour and `bg-gray-900` is the
+ * background of the code column.
  */
-const HTML_TEMPLATE = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>{{TITLE}}</title>
-  <script src="https://cdn.jsdelivr.net/npm/@tailwindcss/browser@4"></script>
-  <style>
-    /* Custom prose styling since Tailwind prose isn't available in CDN */
+const UTILITY_CSS = String.raw`
+    /* Reset */
+    *, ::before, ::after { box-sizing: border-box; margin: 0; padding: 0; border: 0 solid var(--color-border); }
+    html { line-height: 1.5; -webkit-text-size-adjust: 100%; tab-size: 4; }
+    h1, h2, h3, h4, h5, h6 { font-size: inherit; font-weight: inherit; }
+    ol, ul { list-style: none; }
+    a { color: inherit; text-decoration: inherit; }
+    img, svg { display: block; vertical-align: middle; }
+    code, kbd, samp, pre { font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace; font-size: 1em; }
+    input { font: inherit; color: inherit; background-color: transparent; }
+
+    /* Layout */
+    .block { display: block; }
+    .inline-block { display: inline-block; }
+    .flex { display: flex; }
+    .hidden { display: none; }
+    .relative { position: relative; }
+    .absolute { position: absolute; }
+    .sticky { position: sticky; }
+    .top-0 { top: 0; }
+    .z-10 { z-index: 10; }
+    .mx-auto { margin-left: auto; margin-right: auto; }
+    .items-center { align-items: center; }
+    .justify-between { justify-content: space-between; }
+    .shrink-0 { flex-shrink: 0; }
+    .overflow-x-auto { overflow-x: auto; }
+    .overflow-y-auto { overflow-y: auto; }
+    .truncate { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+
+    /* Sizing */
+    .w-4 { width: 1rem; }
+    .w-64 { width: 16rem; }
+    .w-1\/3 { width: 33.333333%; }
+    .w-2\/5 { width: 40%; }
+    .w-3\/5 { width: 60%; }
+    .w-full { width: 100%; }
+    .h-4 { height: 1rem; }
+    .h-full { height: 100%; }
+    .min-h-\[3rem\] { min-height: 3rem; }
+    .min-h-\[4rem\] { min-height: 4rem; }
+    .min-h-screen { min-height: 100vh; }
+    .max-h-96 { max-height: 24rem; }
+    .max-h-screen { max-height: 100vh; }
+    .max-w-xl { max-width: 36rem; }
+    .max-w-7xl { max-width: 80rem; }
+
+    /* Spacing */
+    .p-2 { padding: 0.5rem; }
+    .p-4 { padding: 1rem; }
+    .p-6 { padding: 1.5rem; }
+    .px-1 { padding-left: 0.25rem; padding-right: 0.25rem; }
+    .px-3 { padding-left: 0.75rem; padding-right: 0.75rem; }
+    .px-6 { padding-left: 1.5rem; padding-right: 1.5rem; }
+    .py-0\.5 { padding-top: 0.125rem; padding-bottom: 0.125rem; }
+    .py-2 { padding-top: 0.5rem; padding-bottom: 0.5rem; }
+    .py-3 { padding-top: 0.75rem; padding-bottom: 0.75rem; }
+    .py-4 { padding-top: 1rem; padding-bottom: 1rem; }
+    .py-8 { padding-top: 2rem; padding-bottom: 2rem; }
+    .mt-1 { margin-top: 0.25rem; }
+    .mt-2 { margin-top: 0.5rem; }
+    .mt-4 { margin-top: 1rem; }
+    .mb-2 { margin-bottom: 0.5rem; }
+    .mb-3 { margin-bottom: 0.75rem; }
+    .mb-4 { margin-bottom: 1rem; }
+    .ml-2 { margin-left: 0.5rem; }
+    .mr-2 { margin-right: 0.5rem; }
+
+    /* Typography */
+    .font-sans { font-family: ui-sans-serif, system-ui, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", "Noto Color Emoji"; }
+    .font-mono { font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace; }
+    .text-sm { font-size: 0.875rem; line-height: 1.25rem; }
+    .text-lg { font-size: 1.125rem; line-height: 1.75rem; }
+    .text-xl { font-size: 1.25rem; line-height: 1.75rem; }
+    .text-3xl { font-size: 1.875rem; line-height: 2.25rem; }
+    .font-semibold { font-weight: 600; }
+    .font-bold { font-weight: 700; }
+    .italic { font-style: italic; }
+    .leading-relaxed { line-height: 1.625; }
+    .text-center { text-align: center; }
+    .text-right { text-align: right; }
+    .text-white { color: var(--color-code-text); }
+    .text-gray-200 { color: var(--color-pre-text); }
+    .text-gray-500 { color: var(--color-text-muted); }
+    .text-gray-600 { color: var(--color-text-secondary); }
+    .text-gray-800 { color: var(--color-text); }
+    .text-gray-900 { color: var(--color-heading); }
+    .text-blue-600 { color: var(--color-link); }
+
+    /* Backgrounds, borders and effects */
+    .bg-white { background-color: var(--color-surface); }
+    .bg-gray-50 { background-color: var(--color-page); }
+    .bg-gray-100 { background-color: var(--color-surface-muted); }
+    .bg-gray-800 { background-color: var(--color-pre-bg); }
+    .bg-gray-900 { background-color: var(--color-code-bg); }
+    .border { border-width: 1px; }
+    .border-b { border-bottom-width: 1px; }
+    .border-b-2 { border-bottom-width: 2px; }
+    .border-r { border-right-width: 1px; }
+    .border-gray-200 { border-color: var(--color-border); }
+    .border-gray-300 { border-color: var(--color-border-strong); }
+    .divide-y > :not(:last-child) { border-bottom-width: 1px; }
+    .divide-gray-200 > :not(:last-child) { border-color: var(--color-border); }
+    .rounded { border-radius: 0.25rem; }
+    .shadow-sm { box-shadow: 0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1); }
+    .shadow-lg { box-shadow: 0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1); }
+
+    /* States */
+    .hover\:bg-gray-100:hover { background-color: var(--color-surface-muted); }
+    .hover\:text-gray-900:hover { color: var(--color-heading); }
+    .hover\:text-blue-800:hover { color: var(--color-link-hover); }
+    .hover\:underline:hover { text-decoration-line: underline; }
+    .focus\:outline-none:focus { outline: 2px solid transparent; outline-offset: 2px; }
+    .focus\:border-blue-500:focus { border-color: var(--color-focus); }
+
+    /* Desktop breakpoint */
+    @media (min-width: 1024px) {
+      .lg\:block { display: block; }
+      .lg\:flex { display: flex; }
+      .lg\:hidden { display: none; }
+      .lg\:flex-col { flex-direction: column; }
+      .lg\:w-2\/5 { width: 40%; }
+    }`;
+
+/**
+ * Styles for the markdown rendered from comments, which utility classes
+ * can't reach, and for the elements litsdoc adds around the code.
+ */
+const PROSE_CSS = `
+    /* Prose styling for rendered markdown */
     .prose {
-      color: #374151;
+      color: var(--color-prose);
       max-width: none;
     }
     .prose h1:first-of-type, .prose h2:first-of-type, .prose h3:first-of-type, .prose h4:first-of-type, .prose h5:first-of-type, .prose h6:first-of-type {
@@ -102,7 +462,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       font-weight: 700;
       margin-bottom: 0.75rem;
       margin-top: 1.5rem;
-      color: #111827;
+      color: var(--color-heading);
       line-height: 1.25;
     }
     .prose h2 {
@@ -110,7 +470,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       font-weight: 600;
       margin-bottom: 0.5rem;
       margin-top: 1.25rem;
-      color: #111827;
+      color: var(--color-heading);
       line-height: 1.3;
     }
     .prose h3 {
@@ -118,7 +478,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       font-weight: 600;
       margin-bottom: 0.5rem;
       margin-top: 1rem;
-      color: #111827;
+      color: var(--color-heading);
       line-height: 1.35;
     }
     .prose p {
@@ -140,22 +500,22 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       list-style-type: decimal;
     }
     .prose blockquote {
-      border-left: 4px solid #e5e7eb;
+      border-left: 4px solid var(--color-border);
       padding-left: 1rem;
       margin: 1rem 0;
       font-style: italic;
-      color: #6b7280;
+      color: var(--color-text-muted);
     }
     .prose code {
-      background-color: #f3f4f6;
+      background-color: var(--color-surface-muted);
       padding: 0.125rem 0.25rem;
       border-radius: 0.25rem;
       font-size: 0.875rem;
       font-family: ui-monospace, SFMono-Regular, "Roboto Mono", "Cascadia Code", "Source Code Pro", Menlo, Consolas, "DejaVu Sans Mono", monospace;
     }
     .prose pre {
-      background-color: #1f2937;
-      color: #e5e7eb;
+      background-color: var(--color-pre-bg);
+      color: var(--color-pre-text);
       padding: 0.75rem;
       border-radius: 0.375rem;
       font-size: 0.875rem;
@@ -169,40 +529,259 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
     }
     .prose strong {
       font-weight: 600;
-      color: #111827;
+      color: var(--color-heading);
     }
     .prose em {
       font-style: italic;
     }
     .prose a {
-      color: #2563eb;
+      color: var(--color-link);
       text-decoration: underline;
     }
     .prose a:hover {
-      color: #1d4ed8;
+      color: var(--color-link-hover);
+    }
+    .toc a.active {
+      color: var(--color-link-hover);
+      font-weight: 600;
+    }
+    .search-results:empty {
+      display: none;
+    }
+    .line-numbers .line::before {
+      counter-increment: line;
+      content: counter(line);
+      display: inline-block;
+      width: 2.5rem;
+      margin-right: 1rem;
+      text-align: right;
+      color: var(--color-text-muted);
+      user-select: none;
+    }
+    .math-display {
+      display: block;
+      margin: 1rem 0;
+      overflow-x: auto;
+    }
+    .diagram {
+      margin: 1rem 0;
+      overflow-x: auto;
+      color: var(--color-text);
+    }
+    .diagram svg {
+      max-width: 100%;
+      height: auto;
+    }
+    .diagram text:not([fill]) {
+      fill: currentColor;
+    }
+    .view-source {
+      text-align: right;
+      font-size: 0.75rem;
+      margin-bottom: 0.5rem;
     }
-  </style>
+    .view-source a {
+      color: var(--color-code-text);
+      opacity: 0.6;
+    }
+    .view-source a:hover {
+      opacity: 1;
+      text-decoration: underline;
+    }
+    .collapsed-code summary {
+      cursor: pointer;
+      font-size: 0.75rem;
+      color: var(--color-code-text);
+      opacity: 0.6;
+    }
+    .collapsed-code[open] summary {
+      margin-bottom: 0.5rem;
+    }
+    a.xref {
+      color: inherit;
+      text-decoration: underline dotted;
+    }
+    a.xref:hover {
+      text-decoration: underline;
+    }
+    .xref-uses {
+      margin-top: 0.75rem;
+      font-size: 0.75rem;
+      color: var(--color-code-text);
+      opacity: 0.6;
+    }`;
+
+/**
+ * ## HTML Template
+ * 
+ * The base template for generated documentation. All styling is embedded in
+ * the page, so it renders the same with no network access. A custom
+ * template can be supplied with `--template`; these placeholders are
+ * filled in:
+ * - `{{TITLE}}`: Document title (shown in browser tab and header)
+ * - `{{DESCRIPTION}}`: Markdown-processed description below title
+ * - `{{STYLES}}`: `<style>` element with the built-in stylesheet and theme colours
+ * - `{{EXTRA_CSS}}`: `<style>` element with the `--extra-css` file (or empty)
+ * - `{{TOC}}`: Table of contents sidebar (empty with `--no-toc`)
+ * - `{{SEARCH}}`: Search box and its embedded (or linked) search index
+ * - `{{FILE_LIST}}`: List of links to every documented file
+ * - `{{GENERATED_DATE}}`: Date the documentation was generated (YYYY-MM-DD)
+ * - `{{CONTENT}}`: The main documentation content (comments and code)
+ */
+const HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{TITLE}}</title>
+  {{STYLES}}
+  {{EXTRA_CSS}}
 </head>
 <body class="bg-gray-50 font-sans">
   <div class="max-w-7xl mx-auto">
     <header class="py-8 px-6 bg-white shadow-sm border-b">
       <h1 class="text-3xl font-bold text-gray-900">{{TITLE}}</h1>
       <div class="text-gray-600 mt-2 prose">{{DESCRIPTION}}</div>
+      {{SEARCH}}
     </header>
     
     <main class="block lg:flex min-h-screen">
+      {{TOC}}
       {{CONTENT}}
     </main>
   </div>
 </body>
 </html>`;
 
+/**
+ * ## Themes
+ * 
+ * A theme pairs a Shiki theme for the code with a palette for the page.
+ * The built-in themes are:
+ * - `default`: GitHub Dark code on a light page (the classic litsdoc look)
+ * - `light`: GitHub Light code on a light page
+ * - `dark`: GitHub Dark code on a dark page
+ * - `auto`: `light` or `dark`, following the reader's `prefers-color-scheme`
+ * 
+ * Any bundled Shiki theme name works as well; the page palette then
+ * follows the Shiki theme's own light/dark type, and the code column uses
+ * the theme's editor background.
+ */
+type ShikiThemeSelection = string | { light: string; dark: string };
+
+interface ResolvedTheme {
+  shiki: ShikiThemeSelection;
+  css: string;
+}
+
+const PALETTES: Record<'light' | 'dark', Record<string, string>> = {
+  light: {
+    'page': '#f9fafb',
+    'surface': '#ffffff',
+    'surface-muted': '#f3f4f6',
+    'border': '#e5e7eb',
+    'border-strong': '#d1d5db',
+    'text-muted': '#6b7280',
+    'text-secondary': '#4b5563',
+    'text': '#1f2937',
+    'heading': '#111827',
+    'prose': '#374151',
+    'link': '#2563eb',
+    'link-hover': '#1d4ed8',
+    'focus': '#3b82f6',
+    'pre-bg': '#1f2937',
+    'pre-text': '#e5e7eb',
+  },
+  dark: {
+    'page': '#0d1117',
+    'surface': '#161b22',
+    'surface-muted': '#21262d',
+    'border': '#30363d',
+    'border-strong': '#484f58',
+    'text-muted': '#8b949e',
+    'text-secondary': '#9da7b3',
+    'text': '#c9d1d9',
+    'heading': '#f0f6fc',
+    'prose': '#c9d1d9',
+    'link': '#58a6ff',
+    'link-hover': '#79c0ff',
+    'focus': '#58a6ff',
+    'pre-bg': '#0d1117',
+    'pre-text': '#c9d1d9',
+  },
+};
+
+const BUILTIN_THEMES: Record<string, { shiki: ShikiThemeSelection; palette: 'light' | 'dark' | 'auto'; codeColors?: [string, string] }> = {
+  default: { shiki: 'github-dark', palette: 'light', codeColors: ['#111827', '#ffffff'] },
+  light: { shiki: 'github-light', palette: 'light' },
+  dark: { shiki: 'github-dark', palette: 'dark' },
+  auto: { shiki: { light: 'github-light', dark: 'github-dark' }, palette: 'auto' },
+};
+
+/**
+ * Resolves a theme name into the Shiki theme selection and the CSS
+ * variables for the page palette and code column.
+ */
+async function resolveTheme(name = 'default'): Promise<ResolvedTheme> {
+  const builtin = BUILTIN_THEMES[name];
+  const info = bundledThemesInfo.find(theme => theme.id === name);
+  
+  if (!builtin && !info) {
+    throw new Error(`Unknown theme '${name}'. Use ${Object.keys(BUILTIN_THEMES).join(', ')} or a Shiki theme name`);
+  }
+  
+  const { shiki, palette, codeColors } = builtin ?? { shiki: name, palette: info!.type };
+  
+  const variables = async (paletteName: 'light' | 'dark', shikiTheme: string, colors?: [string, string]) => {
+    const [background, foreground] = colors ?? await getThemeColors(shikiTheme);
+    const entries = Object.entries(PALETTES[paletteName])
+      .map(([key, value]) => `--color-${key}: ${value};`);
+    entries.push(`--color-code-bg: ${background};`, `--color-code-text: ${foreground};`);
+    return entries.join(' ');
+  };
+  
+  if (palette === 'auto' && typeof shiki !== 'string') {
+    return {
+      shiki,
+      css: `
+    :root { ${await variables('light', shiki.light)} }
+    @media (prefers-color-scheme: dark) {
+      :root { ${await variables('dark', shiki.dark)} }
+      [style*="--shiki-dark"] { color: var(--shiki-dark) !important; }
+    }`
+    };
+  }
+  
+  return {
+    shiki,
+    css: `
+    :root { ${await variables(palette as 'light' | 'dark', shiki as string, codeColors)} }`
+  };
+}
+
+/**
+ * Reads the editor background and foreground colours of a Shiki theme.
+ */
+async function getThemeColors(shikiTheme: string): Promise<[string, string]> {
+  const theme = (await bundledThemes[shikiTheme as keyof typeof bundledThemes]()).default as {
+    type?: string; bg?: string; fg?: string; colors?: Record<string, string>;
+  };
+  const type: 'light' | 'dark' = theme.type === 'light' ? 'light' : 'dark';
+  return [
+    theme.bg ?? theme.colors?.['editor.background'] ?? PALETTES[type].surface,
+    theme.fg ?? theme.colors?.['editor.foreground'] ?? PALETTES[type].text,
+  ];
+}
+
 /**
  * ## Core Data Structures
  * 
  * `LiterateBlock` represents a single unit of documentation or code.
  * These blocks are extracted from source files and alternated to create
  * the literate programming layout where documentation and code are paired.
+ * Code blocks marked `collapsed` by a `litsdoc:collapse` directive render
+ * folded away, and the first block of an `@section` carries its `section`.
+ * Code blocks list the top-level names they define in `defines`.
  */
 interface LiterateBlock {
   type: 'comment' | 'code';
@@ -211,6 +790,9 @@ interface LiterateBlock {
   lineStart: number;
   lineEnd: number;
   fileName: string;
+  collapsed?: boolean;
+  section?: { name: string; order?: string };
+  defines?: string[];
 }
 
 /**
@@ -221,24 +803,122 @@ interface ProcessedFile {
   fileName: string;
   blocks: LiterateBlock[];
   baseUrl?: string;
+  displayName?: string;
+  intro?: string;
+}
+
+/**
+ * `PageOptions` controls how pages are rendered: the resolved theme,
+ * whether to include the table of contents and line numbers, the
+ * cross-reference index, the line anchor style for source links, the HTML
+ * template, any extra CSS to add to the page, the build cache holding
+ * already rendered blocks and the git history shown in file headers.
+ */
+interface PageOptions {
+  theme?: ResolvedTheme;
+  cache?: BuildCache;
+  gitInfo?: Map<string, GitFileInfo>;
+  toc?: boolean;
+  crossReferences?: CrossReferences;
+  lineNumbers?: boolean;
+  lineAnchor?: string;
+  template?: string;
+  extraCss?: string;
 }
 
 /**
  * `CommandLineOptions` defines all available CLI arguments.
- * Supports both direct CLI usage and argfile configuration.
+ * Supports direct CLI usage, argfile configuration and project config files.
+ * `files` is expanded from the `inputs` as given (files, directories and
+ * globs) and the ordering manifest's entries in `order`.
  */
 interface CommandLineOptions {
   files: string[];
+  inputs: string[];
+  order: string[];
+  fileOptions: Record<string, FileOptions>;
   outputHtml?: string;
+  outputDir?: string;
   codeUrl?: string;
   title?: string;
   description?: string;
+  theme?: string;
+  toc?: boolean;
+  xref?: boolean;
+  cache?: boolean;
+  gitInfo?: boolean;
+  lineNumbers?: boolean;
+  lineAnchor?: string;
+  template?: string;
+  extraCss?: string;
+  format?: 'html' | 'markdown' | 'json';
+  fromJson?: string;
+  weaveOrder?: string[] | 'by-key';
+  orderFile?: string;
+  diff?: { from: string; to: string };
   argfile?: string;
+  config?: string;
+  commentSyntax?: string[];
   stdout?: boolean;
+  watch?: boolean;
+  serve?: boolean;
+  port?: number;
+  timings?: boolean;
   help?: boolean;
   version?: boolean;
 }
 
+/**
+ * `FileOptions` holds the per-file overrides a project config can set:
+ * - `displayName`: Name shown in the file header instead of the file name
+ * - `intro`: Markdown file rendered as prose before the file's blocks
+ * - `language`: Registry language name, overriding extension detection
+ * - `exclude`: Inclusive `[start, end]` line ranges left out of the output
+ * - `docCommentsOnly`: Only doc comments become prose; others stay in the code
+ * - `nestedComments`: Whether comments inside function bodies become `prose`
+ *   (splitting the function's code) or stay in the `code`
+ */
+interface FileOptions {
+  displayName?: string;
+  intro?: string;
+  language?: string;
+  exclude?: [number, number][];
+  docCommentsOnly?: boolean;
+  nestedComments?: 'prose' | 'code';
+}
+
+/**
+ * `ProjectConfig` is the structured alternative to an argfile. It is read
+ * from `litsdoc.json`, or from the `litsdoc` key of `deno.json`. Files are
+ * listed in reading order, either as plain paths or as objects with a
+ * `path` and any `FileOptions`. Relative paths are resolved against the
+ * directory containing the config file.
+ */
+interface ProjectConfig {
+  files?: (string | ({ path: string } & FileOptions))[];
+  output?: string;
+  outputDir?: string;
+  title?: string;
+  description?: string;
+  codeUrl?: string;
+  theme?: string;
+  toc?: boolean;
+  xref?: boolean;
+  cache?: boolean;
+  git?: boolean;
+  gitRef?: string;
+  gitInfo?: boolean;
+  lineNumbers?: boolean;
+  lineAnchor?: string;
+  docCommentsOnly?: boolean;
+  nestedComments?: 'prose' | 'code';
+  weaveOrder?: string[] | 'by-key';
+  order?: string[];
+  template?: string;
+  extraCss?: string;
+  commentSyntax?: string[];
+}
+
 /**
  * ## Markdown Processing Configuration
  * 
@@ -254,21 +934,41 @@ marked.setOptions({
 
 // Custom renderer for inline code to match our styling
 const renderer = new marked.Renderer();
-renderer.code = (code: string, language: string | undefined) => {
-  // For code blocks in markdown, we'll use inline styling that matches our theme
-  const escapedCode = code
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;');
-  return `<pre class="bg-gray-800 text-gray-200 p-2 rounded text-sm overflow-x-auto"><code>${escapedCode}</code></pre>`;
-};
-
 renderer.codespan = (text: string) => {
   return `<code class="bg-gray-100 px-1 py-0.5 rounded text-sm font-mono">${text}</code>`;
 };
 
 marked.setOptions({ renderer });
 
+// `$...$` and `$$...$$` are TeX math, rendered by `renderMath`
+marked.use({
+  extensions: [{
+    name: 'mathBlock',
+    level: 'block',
+    start: (src: string) => src.match(/^\$\$/m)?.index,
+    tokenizer(src: string) {
+      const match = /^\$\$([\s\S]+?)\$\$[^\S\n]*(?:\n|$)/.exec(src);
+      if (match) {
+        return { type: 'mathBlock', raw: match[0], text: match[1].trim() };
+      }
+    },
+    renderer: (token: Tokens.Generic) => `${renderMath(token.text, true)}\n`
+  }, {
+    name: 'mathInline',
+    level: 'inline',
+    start: (src: string) => src.indexOf('$'),
+    tokenizer(src: string) {
+      // Like pandoc: no space just inside the dollars, and no digit right after, so prices stay
+      // text; nor a backtick inside, so a stray dollar can't swallow the start of a code span
+      const match = /^\$\$([^$`]+?)\$\$|^\$(?![\s$])((?:\\.|[^\\$\n`])+?)(?<!\s)\$(?!\d)/.exec(src);
+      if (match) {
+        return { type: 'mathInline', raw: match[0], text: match[1] ?? match[2], display: match[1] !== undefined };
+      }
+    },
+    renderer: (token: Tokens.Generic) => renderMath(token.text, token.display)
+  }]
+});
+
 /**
  * ## Markdown Processing
  * 
@@ -276,12 +976,30 @@ marked.setOptions({ renderer });
  * Handles all standard markdown features including headers, lists,
  * emphasis, links, and code blocks. Falls back to simple paragraph
  * wrapping if markdown processing fails.
+ * 
+ * Fenced code blocks are highlighted with Shiki like the code column.
+ * Highlighting is asynchronous but marked's renderer hooks are not, so
+ * the fences are highlighted between lexing and rendering and handed to
+ * the renderer as ready-made HTML. A fence without a language tag is in
+ * `language`, the language of the file the comment belongs to. Diagram
+ * fences become SVG instead.
  */
-async function processMarkdown(content: string): Promise<string> {
+async function processMarkdown(content: string, language = 'text', theme?: ShikiThemeSelection): Promise<string> {
   try {
-    // Use marked to process the markdown content
-    const html = await marked.parse(content);
-    return html;
+    const tokens = marked.lexer(content);
+    
+    const fences: Tokens.Code[] = [];
+    marked.walkTokens(tokens, token => {
+      if (token.type === 'code') fences.push(token as Tokens.Code);
+    });
+    await Promise.all(fences.map(async fence => {
+      const fenceLanguage = fence.lang?.trim().split(/\s+/)[0] || language;
+      const html = await renderDiagram(fenceLanguage, fence.text) ??
+        await highlightCode(fence.text, fenceLanguage, theme, undefined, PROSE_SHIKI_TRANSFORMERS);
+      Object.assign(fence, { type: 'html', block: true, pre: true, text: `${html}\n` });
+    }));
+    
+    return marked.parser(tokens);
   } catch (error) {
     console.warn('Failed to process markdown:', error.message);
     // Fallback to simple paragraph wrapping
@@ -289,50 +1007,154 @@ async function processMarkdown(content: string): Promise<string> {
   }
 }
 
+/**
+ * ## Math and Diagrams
+ * 
+ * Math and diagrams are rendered while the documentation is built, so
+ * reading it needs no scripts, fonts or network access. TeX math becomes
+ * MathML, which browsers display natively; KaTeX reports errors in the
+ * output rather than failing the build.
+ * 
+ * Fences tagged `mermaid` become SVG through beautiful-mermaid, which lays
+ * diagrams out without a browser, and `dot` (or `graphviz`) fences through
+ * Graphviz compiled to WebAssembly. Both draw in the page's text colour,
+ * so diagrams follow the theme. A diagram that fails to render is shown as
+ * code, with a warning.
+ */
+function renderMath(tex: string, displayMode: boolean): string {
+  const html = katex.renderToString(tex, { displayMode, output: 'mathml', throwOnError: false });
+  // A span, since `$$...$$` can also appear inside a paragraph
+  return displayMode ? `<span class="math-display">${html}</span>` : html;
+}
+
+const DIAGRAM_RENDERERS: Record<string, (source: string) => string | Promise<string>> = {
+  mermaid: source => renderMermaidSVG(source, {
+    bg: 'var(--color-surface)',
+    fg: 'var(--color-text)',
+    font: 'system-ui',
+    transparent: true
+  }).replace(/@import url\([^)]*\);/g, ''), // Web fonts would need the network
+  dot: renderGraphviz,
+  graphviz: renderGraphviz
+};
+
+let sharedViz: Promise<Viz> | undefined;
+
+async function renderGraphviz(source: string): Promise<string> {
+  sharedViz ??= createViz();
+  const svg = (await sharedViz).renderString(source, {
+    format: 'svg',
+    graphAttributes: { bgcolor: 'transparent' }
+  });
+  // Drop the XML prolog, and draw in the text colour instead of black
+  return svg.slice(svg.indexOf('<svg')).replace(/(fill|stroke)="black"/g, '$1="currentColor"');
+}
+
+/**
+ * Renders a diagram fence to SVG, or returns `undefined` if `language`
+ * isn't a diagram language or the diagram can't be rendered.
+ */
+async function renderDiagram(language: string, source: string): Promise<string | undefined> {
+  const render = DIAGRAM_RENDERERS[language];
+  if (!render) return undefined;
+  
+  try {
+    return `<div class="diagram diagram-${language}">${await render(source)}</div>`;
+  } catch (error) {
+    console.warn(`Warning: Cannot render ${language} diagram: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
 /**
  * ## Syntax Highlighting
  * 
- * Applies VS Code-quality syntax highlighting using Shiki with fallback strategies.
- * Uses GitHub Dark theme with custom transformers for consistent styling.
+ * Applies VS Code-quality syntax highlighting using Shiki, falling back to
+ * plain escaped text if a block can't be highlighted.
+ * Uses the GitHub Dark theme by default with custom transformers for consistent styling.
  */
-const SHIKI_TRANSFORMERS = [{
-  pre(node: any) {
+const SHIKI_TRANSFORMERS: ShikiTransformer[] = [{
+  pre(node) {
     node.properties.class = 'text-sm leading-relaxed overflow-x-auto text-white';
     node.properties.style = 'background-color: transparent; padding: 0; margin: 0;';
   },
-  code(node: any) {
+  code(node) {
     node.properties.style = 'background-color: transparent;';
   }
 }];
 
-async function highlightCode(code: string, language: string): Promise<string> {
-  const strategies = [
-    () => codeToHtml(code, {
-      lang: SHIKI_LANGUAGE_MAP[language] || 'text',
-      theme: 'github-dark',
-      transformers: SHIKI_TRANSFORMERS
-    }),
-    () => codeToHtml(code, {
-      lang: 'text',
-      theme: 'github-dark', 
-      transformers: SHIKI_TRANSFORMERS
-    }),
-    () => Promise.resolve(`<pre class="text-sm leading-relaxed overflow-x-auto text-white"><code>${
-      code.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
-    }</code></pre>`)
-  ];
+// Fenced code in prose sits on the page, so it gets the code column's colours as a box of its own
+const PROSE_SHIKI_TRANSFORMERS: ShikiTransformer[] = [{
+  pre(node) {
+    node.properties.class = 'text-sm p-2 rounded overflow-x-auto';
+    node.properties.style = 'background-color: var(--color-code-bg); color: var(--color-code-text);';
+  },
+  code(node) {
+    node.properties.style = 'background-color: transparent;';
+  }
+}];
+
+/**
+ * One Shiki highlighter serves every code block. It is created on first
+ * use, and later calls load only the themes and languages it doesn't have
+ * yet, so `generateOutput` can preload exactly what a build needs and
+ * watch mode rebuilds reuse it. Languages Shiki doesn't bundle are
+ * highlighted as plain text.
+ */
+let sharedHighlighter: Promise<Highlighter> | undefined;
+
+async function loadHighlighter(theme: ShikiThemeSelection, languages: string[]): Promise<Highlighter> {
+  const themes = typeof theme === 'string' ? [theme] : [theme.light, theme.dark];
+  const langs = [...new Set(languages)].filter(lang => lang in bundledLanguages);
   
-  for (const [i, strategy] of strategies.entries()) {
-    try {
-      return await strategy();
-    } catch (error) {
-      if (i < strategies.length - 1) {
-        console.warn(`Highlight strategy ${i + 1} failed, trying fallback:`, (error as Error).message);
-      }
-    }
+  sharedHighlighter ??= createHighlighter({ themes, langs });
+  const highlighter = await sharedHighlighter;
+  
+  const missingThemes = themes.filter(name => !highlighter.getLoadedThemes().includes(name));
+  const missingLanguages = langs.filter(lang => !highlighter.getLoadedLanguages().includes(lang));
+  if (missingThemes.length > 0 || missingLanguages.length > 0) {
+    await Promise.all([
+      ...missingThemes.map(name => highlighter.loadTheme(name as keyof typeof bundledThemes)),
+      ...missingLanguages.map(lang => highlighter.loadLanguage(lang as keyof typeof bundledLanguages))
+    ]);
   }
+  return highlighter;
+}
+
+async function highlightCode(code: string, language: string, theme: ShikiThemeSelection = 'github-dark', firstLine?: number, baseTransformers: ShikiTransformer[] = SHIKI_TRANSFORMERS): Promise<string> {
+  // Light/dark theme pairs render light colours inline and dark ones as CSS variables
+  const themeOptions = typeof theme === 'string'
+    ? { theme }
+    : { themes: theme, defaultColor: 'light' as const };
+  
+  // Line numbers are a CSS counter on each `.line`, starting at the block's first source line
+  const transformers: ShikiTransformer[] = firstLine === undefined ? baseTransformers : [...baseTransformers, {
+    pre(node) {
+      this.addClassToHast(node, 'line-numbers');
+    },
+    code(node) {
+      node.properties.style = `${node.properties.style ?? ''} counter-reset: line ${firstLine - 1};`;
+    }
+  }];
   
-  throw new Error('All highlighting strategies failed');
+  const lang = getShikiLanguage(language);
+  const highlighter = await loadHighlighter(theme, [lang]);
+  const start = performance.now();
+  
+  try {
+    return highlighter.codeToHtml(code, {
+      lang: highlighter.getLoadedLanguages().includes(lang) ? lang : 'text',
+      ...themeOptions,
+      transformers
+    });
+  } catch (error) {
+    console.warn(`Highlighting ${language} failed, using plain text:`, (error as Error).message);
+    return `<pre class="text-sm leading-relaxed overflow-x-auto text-white"><code>${
+      code.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    }</code></pre>`;
+  } finally {
+    recordTiming('render: highlight', performance.now() - start);
+  }
 }
 
 /**
@@ -354,113 +1176,873 @@ async function parseArgsFromFile(argfilePath: string): Promise<string[]> {
 
 
 /**
- * ## Unified Command Line Argument Parser
+ * ## Project Config Loader
  * 
- * Handles both direct CLI arguments and argfile-based configuration.
- * When an argfile is specified, reads arguments from the file and
- * parses them as if they were provided on the command line.
+ * Loads a `ProjectConfig` from an explicit path, or discovers one in the
+ * working directory: `litsdoc.json` first, then a `litsdoc` key in
+ * `deno.json`. Returns `undefined` when no config is found. Discovery only
+ * happens when no input files are given on the command line.
  */
-async function parseCommandLineArgs(): Promise<CommandLineOptions> {
-  // First check if --argfile is specified
-  const initialArgs = parseArgs(Deno.args, {
-    string: ["argfile"],
-    alias: { "argfile": "f" }
-  });
+async function loadProjectConfig(configPath?: string): Promise<{ path: string; baseDir: string; config: ProjectConfig } | undefined> {
+  const candidates = configPath ? [configPath] : ['litsdoc.json', 'deno.json'];
+  
+  for (const path of candidates) {
+    let raw: string;
+    try {
+      raw = await Deno.readTextFile(path);
+    } catch (error) {
+      if (!configPath && error instanceof Deno.errors.NotFound) continue;
+      throw new Error(`Cannot read config '${path}': ${(error as Error).message}`);
+    }
+    
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid JSON in config '${path}': ${(error as Error).message}`);
+    }
+    
+    const isDenoJson = /(^|\/)deno\.json$/.test(path);
+    const config = isDenoJson && isRecord(parsed) ? parsed.litsdoc : parsed;
+    if (config === undefined && isDenoJson && !configPath) continue;
+    
+    validateProjectConfig(config, path);
+    const baseDir = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '.';
+    return { path, baseDir, config };
+  }
+  
+  return undefined;
+}
 
-  let argsToProcess = Deno.args;
+/**
+ * Checks the shape of a config so mistakes are reported up front
+ * rather than surfacing as confusing errors mid-run. Unknown keys are
+ * rejected too, since a misspelt option would otherwise be silently ignored.
+ */
+const CONFIG_STRING_KEYS = ['output', 'outputDir', 'title', 'description', 'codeUrl', 'gitRef', 'theme', 'lineAnchor', 'template', 'extraCss'];
+const CONFIG_BOOLEAN_KEYS = ['toc', 'xref', 'cache', 'git', 'gitInfo', 'lineNumbers', 'docCommentsOnly'];
+const CONFIG_KEYS = [...CONFIG_STRING_KEYS, ...CONFIG_BOOLEAN_KEYS, 'files', 'weaveOrder', 'order', 'nestedComments', 'commentSyntax'];
+const FILE_CONFIG_KEYS = ['path', 'displayName', 'intro', 'language', 'exclude', 'docCommentsOnly', 'nestedComments'];
 
-  // If argfile is specified, read arguments from file
-  if (initialArgs.argfile) {
+function validateProjectConfig(config: unknown, path: string): asserts config is ProjectConfig {
+  const fail: (message: string) => never = message => {
+    throw new Error(`Invalid config '${path}': ${message}`);
+  };
+  
+  if (!isRecord(config)) {
+    fail('expected an object' + (/deno\.json$/.test(path) ? ' under the "litsdoc" key' : ''));
+  }
+  
+  const unknownKey = Object.keys(config).find(key => !CONFIG_KEYS.includes(key));
+  if (unknownKey) {
+    fail(`unknown key "${unknownKey}"`);
+  }
+  
+  for (const key of CONFIG_STRING_KEYS) {
+    if (config[key] !== undefined && typeof config[key] !== 'string') {
+      fail(`"${key}" must be a string`);
+    }
+  }
+  
+  for (const key of CONFIG_BOOLEAN_KEYS) {
+    if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+      fail(`"${key}" must be a boolean`);
+    }
+  }
+  
+  if (config.weaveOrder !== undefined && config.weaveOrder !== 'by-key' && !isStringArray(config.weaveOrder)) {
+    fail('"weaveOrder" must be an array of section names or "by-key"');
+  }
+  
+  if (config.order !== undefined && !isStringArray(config.order)) {
+    fail('"order" must be an array of paths or globs');
+  }
+  
+  if (config.nestedComments !== undefined && config.nestedComments !== 'prose' && config.nestedComments !== 'code') {
+    fail('"nestedComments" must be "prose" or "code"');
+  }
+  
+  if (config.commentSyntax !== undefined && !isStringArray(config.commentSyntax)) {
+    fail('"commentSyntax" must be an array of strings');
+  }
+  
+  if (config.files !== undefined && !Array.isArray(config.files)) {
+    fail('"files" must be an array');
+  }
+  
+  for (const entry of config.files ?? []) {
+    if (typeof entry === 'string') continue;
+    if (!isRecord(entry) || typeof entry.path !== 'string') {
+      fail('each file must be a path or an object with a "path"');
+    }
+    const unknownFileKey = Object.keys(entry).find(key => !FILE_CONFIG_KEYS.includes(key));
+    if (unknownFileKey) {
+      fail(`unknown key "${unknownFileKey}" for '${entry.path}'`);
+    }
+    for (const key of ['displayName', 'intro', 'language']) {
+      if (entry[key] !== undefined && typeof entry[key] !== 'string') {
+        fail(`"${key}" of '${entry.path}' must be a string`);
+      }
+    }
+    if (entry.docCommentsOnly !== undefined && typeof entry.docCommentsOnly !== 'boolean') {
+      fail(`"docCommentsOnly" of '${entry.path}' must be a boolean`);
+    }
+    if (entry.nestedComments !== undefined && entry.nestedComments !== 'prose' && entry.nestedComments !== 'code') {
+      fail(`"nestedComments" of '${entry.path}' must be "prose" or "code"`);
+    }
+    if (typeof entry.language === 'string' && !LANGUAGE_REGISTRY[entry.language]) {
+      fail(`unknown language '${entry.language}' for '${entry.path}'`);
+    }
+    if (entry.exclude !== undefined &&
+        (!Array.isArray(entry.exclude) || !entry.exclude.every((range: unknown) =>
+          Array.isArray(range) && range.length === 2 && range.every(n => Number.isInteger(n))))) {
+      fail(`"exclude" of '${entry.path}' must be an array of [start, end] line ranges`);
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Resolves a path from a config file against the config's directory.
+ */
+function resolveConfigPath(baseDir: string, path: string): string {
+  return baseDir === '.' || path.startsWith('/') ? path : `${baseDir}/${path}`;
+}
+
+/**
+ * Reads an ordering manifest: one path or glob per line, resolved against
+ * the manifest's directory. Blank lines and `#` comments are ignored.
+ */
+async function readOrderManifest(path: string): Promise<string[]> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (error) {
+    throw new Error(`Cannot read order manifest '${path}': ${(error as Error).message}`);
+  }
+  const baseDir = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '.';
+  return text.split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => resolveConfigPath(baseDir, line));
+}
+
+/**
+ * ## Input Expansion
+ * 
+ * Inputs can be files, directories or glob patterns such as `src/**\/*.rs`.
+ * Directories are walked recursively, and a glob is matched against every
+ * file below its leading segments without wildcards. Both skip `.git`,
+ * anything matched by a `.gitignore` and files without a supported language.
+ * A file named directly is always kept, so it still reports a clear error.
+ * 
+ * Each directory or glob is sorted with `compareSourcePaths`. Finally the
+ * files matched by the ordering manifest are pinned to the front, in
+ * manifest order, and everything else keeps its place after them.
+ */
+async function expandInputs(inputs: string[], order: string[] = []): Promise<{ files: string[]; skipped: number }> {
+  const files: string[] = [];
+  let skipped = 0;
+  
+  for (const input of inputs) {
+    const isGlob = GLOB_CHARACTERS.test(input);
+    const stat = isGlob ? undefined : await Deno.stat(input).catch(() => undefined);
+    if (!isGlob && !stat?.isDirectory) {
+      files.push(input);
+      continue;
+    }
+    
+    const normalized = normalizePath(input);
+    const root = isGlob ? getGlobBase(normalized) : normalized;
+    const pattern = isGlob ? new RegExp(`^${globToRegExpSource(normalized)}$`) : undefined;
+    const found: string[] = [];
+    
+    const exists = isGlob ? (await Deno.stat(root).catch(() => undefined))?.isDirectory : true;
+    for await (const file of exists ? walkSourceTree(root) : []) {
+      if (pattern && !pattern.test(file)) continue;
+      if (resolveLanguage(file)) {
+        found.push(file);
+      } else {
+        skipped++;
+      }
+    }
+    
+    if (found.length === 0) {
+      throw new Error(`No supported source files found in '${input}'`);
+    }
+    files.push(...found.sort(compareSourcePaths));
+  }
+  
+  const unique = [...new Map(files.map(file => [normalizePath(file), file])).values()];
+  return { files: applyOrderManifest(unique, order), skipped };
+}
+
+const GLOB_CHARACTERS = /[*?[{]/;
+
+/**
+ * Files that introduce their directory, so they come before the other
+ * files in it, in this order.
+ */
+const LEADING_FILE_NAMES = ['readme', '__init__', 'mod', 'lib', 'index', 'main'];
+
+/**
+ * The default reading order: a directory's files come before its
+ * subdirectories, leading files (READMEs, `mod.rs`, `__init__.py`, ...)
+ * come first within a directory, and the rest is alphabetical.
+ */
+function compareSourcePaths(a: string, b: string): number {
+  const directoryA = a.split('/');
+  const directoryB = b.split('/');
+  const nameA = directoryA.pop()!;
+  const nameB = directoryB.pop()!;
+  
+  for (let i = 0; i < Math.min(directoryA.length, directoryB.length); i++) {
+    if (directoryA[i] !== directoryB[i]) {
+      return directoryA[i].localeCompare(directoryB[i]);
+    }
+  }
+  if (directoryA.length !== directoryB.length) {
+    return directoryA.length - directoryB.length;
+  }
+  
+  const rank = (name: string) => {
+    const index = LEADING_FILE_NAMES.indexOf(name.replace(/\.[^.]*$/, '').toLowerCase());
+    return index === -1 ? LEADING_FILE_NAMES.length : index;
+  };
+  return rank(nameA) - rank(nameB) || nameA.localeCompare(nameB);
+}
+
+/**
+ * Moves the files matched by manifest entries to the front. An entry is a
+ * path or glob (already resolved against the manifest's directory); naming
+ * a directory pins everything below it.
+ */
+function applyOrderManifest(files: string[], order: string[]): string[] {
+  if (order.length === 0) return files;
+  
+  const patterns = order.map(entry => new RegExp(`^${globToRegExpSource(toAbsolutePath(entry))}(?:/.*)?$`));
+  const ranks = new Map(files.map(file => {
+    const path = toAbsolutePath(file);
+    const index = patterns.findIndex(pattern => pattern.test(path));
+    return [file, index === -1 ? patterns.length : index];
+  }));
+  
+  order.forEach((entry, index) => {
+    if (![...ranks.values()].includes(index)) {
+      console.warn(`Warning: order entry '${entry}' does not match any input file`);
+    }
+  });
+  
+  return [...files].sort((a, b) => ranks.get(a)! - ranks.get(b)!);
+}
+
+/**
+ * Yields every file below `root` that isn't ignored by git: `.git` itself,
+ * `.git/info/exclude`, and the `.gitignore` files of the repository's
+ * directories down to `root` and below it.
+ */
+async function* walkSourceTree(root: string): AsyncGenerator<string> {
+  const rules: IgnoreRule[] = [];
+  const gitRoot = await findGitRoot(root);
+  if (gitRoot) {
+    rules.push(...await readIgnoreRules(`${gitRoot}/.git/info/exclude`, gitRoot));
+    // Every directory from the repository root down to, but not including, `root`
+    const below = toAbsolutePath(root).slice(gitRoot.length).split('/').filter(Boolean);
+    for (let depth = 0; depth < below.length; depth++) {
+      const directory = [gitRoot === '/' ? '' : gitRoot, ...below.slice(0, depth)].join('/') || '/';
+      rules.push(...await readIgnoreRules(`${directory}/.gitignore`, directory));
+    }
+  }
+  yield* walkDirectory(root, rules);
+}
+
+async function* walkDirectory(directory: string, inheritedRules: IgnoreRule[]): AsyncGenerator<string> {
+  const rules = [...inheritedRules, ...await readIgnoreRules(`${directory}/.gitignore`, toAbsolutePath(directory))];
+  
+  for await (const entry of Deno.readDir(directory)) {
+    if (entry.name === '.git') continue;
+    
+    const path = directory === '.' ? entry.name : `${directory.replace(/\/$/, '')}/${entry.name}`;
+    const isDirectory = entry.isDirectory ||
+      (entry.isSymlink && (await Deno.stat(path).catch(() => undefined))?.isDirectory === true);
+    if (isIgnored(toAbsolutePath(path), isDirectory, rules)) continue;
+    
+    if (entry.isDirectory) {
+      // Symlinked directories aren't followed, so links can't create cycles
+      yield* walkDirectory(path, rules);
+    } else if (!isDirectory) {
+      yield path;
+    }
+  }
+}
+
+/**
+ * ### .gitignore Rules
+ * 
+ * A rule is one line of a `.gitignore`, with its pattern compiled against
+ * paths relative to the directory holding the file. Later rules win, so a
+ * `!pattern` can re-include what an earlier one ignored. Patterns with a
+ * slash (other than a trailing one) are anchored to that directory; others
+ * match a name at any depth. A trailing slash only matches directories.
+ */
+interface IgnoreRule {
+  base: string;
+  pattern: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+async function readIgnoreRules(path: string, base: string): Promise<IgnoreRule[]> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch {
+    return [];
+  }
+  
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of text.split('\n')) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+    
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+    
+    const directoryOnly = line.endsWith('/');
+    line = line.replace(/\/+$/, '');
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    if (!line) continue;
+    
+    const source = globToRegExpSource(line);
+    rules.push({
+      base,
+      pattern: new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`),
+      negate,
+      directoryOnly
+    });
+  }
+  return rules;
+}
+
+function isIgnored(absolutePath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    const prefix = rule.base === '/' ? '/' : `${rule.base}/`;
+    if (!absolutePath.startsWith(prefix)) continue;
+    if (rule.pattern.test(absolutePath.slice(prefix.length))) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Finds the closest directory at or above `path` that contains `.git`.
+ */
+async function findGitRoot(path: string): Promise<string | undefined> {
+  let directory = toAbsolutePath(path);
+  while (true) {
+    if (await Deno.stat(`${directory}/.git`).catch(() => undefined)) {
+      return directory;
+    }
+    if (directory === '/') return undefined;
+    directory = directory.slice(0, directory.lastIndexOf('/')) || '/';
+  }
+}
+
+/**
+ * Compiles a glob to a regular expression source: `*` and `?` stay within
+ * a path segment, `**` crosses segments, and `[...]` and `{a,b}` work as
+ * in the shell.
+ */
+function globToRegExpSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const close = glob.indexOf(']', i + 2);
+      source += `[${glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+      i = close;
+    } else if (char === '{' && glob.indexOf('}', i) !== -1) {
+      const close = glob.indexOf('}', i);
+      source += `(?:${glob.slice(i + 1, close).split(',').map(globToRegExpSource).join('|')})`;
+      i = close;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * The directory a glob is walked from: its segments before the first one
+ * with a wildcard.
+ */
+function getGlobBase(glob: string): string {
+  const segments = glob.split('/');
+  const first = segments.findIndex(segment => GLOB_CHARACTERS.test(segment));
+  return segments.slice(0, first).join('/') || (glob.startsWith('/') ? '/' : '.');
+}
+
+/**
+ * Drops `.` segments, repeated slashes and trailing slashes, so the same
+ * file is spelled the same way however it was named.
+ */
+function normalizePath(path: string): string {
+  return path.split('/').filter((segment, i) => segment !== '.' && (segment !== '' || i === 0)).join('/') || (path.startsWith('/') ? '/' : '.');
+}
+
+function toAbsolutePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of (path.startsWith('/') ? path : `${Deno.cwd()}/${path}`).split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * The path from the working directory to `path`, using `..` to climb out.
+ */
+function toRelativePath(path: string): string {
+  const from = toAbsolutePath('.').split('/').filter(Boolean);
+  const to = toAbsolutePath(path).split('/').filter(Boolean);
+  let common = 0;
+  while (common < from.length && from[common] === to[common]) {
+    common++;
+  }
+  return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/') || '.';
+}
+
+/**
+ * ## Unified Command Line Argument Parser
+ * 
+ * Handles both direct CLI arguments and argfile-based configuration.
+ * When an argfile is specified, reads arguments from the file and
+ * parses them as if they were provided on the command line.
+ * 
+ * Settings from a project config fill in anything not given on the
+ * command line; files listed on the command line replace the config's list.
+ */
+async function parseCommandLineArgs(): Promise<CommandLineOptions> {
+  // First check if --argfile is specified
+  const initialArgs = parseArgs(Deno.args, {
+    string: ["argfile"],
+    alias: { "argfile": "f" }
+  });
+
+  let argsToProcess = Deno.args;
+
+  // If argfile is specified, read arguments from file
+  if (initialArgs.argfile) {
     console.log(`Reading arguments from: ${initialArgs.argfile}`);
     argsToProcess = await parseArgsFromFile(initialArgs.argfile as string);
   }
 
   const args = parseArgs(argsToProcess, {
-    boolean: ["help", "version", "stdout"],
-    string: ["output-html", "code-url", "title", "description", "argfile"],
+    boolean: ["help", "version", "stdout", "watch", "serve", "line-numbers", "doc-comments-only", "timings", "clean-cache", "git-info"],
+    negatable: ["toc", "xref", "cache", "git"], // Only --no-toc/--no-xref/--no-cache/--no-git, so the config applies when neither is given
+    // `_` keeps positional arguments such as revisions (`2e94257`) and file names (`0123.c`) from becoming numbers
+    string: ["_", "output-html", "output-dir", "code-url", "title", "description", "theme", "template", "extra-css", "line-anchor", "git-ref", "nested-comments", "weave-order", "order", "format", "emit-json", "from-json", "argfile", "config", "comment-syntax", "port"],
+    collect: ["comment-syntax"],
     alias: {
       "help": "h",
       "version": "v",
       "output-html": "o",
+      "output-dir": "O",
       "code-url": "u",
       "title": "t",
       "description": "d",
       "argfile": "f",
-      "stdout": "s"
+      "config": "c",
+      "stdout": "s",
+      "watch": "w",
+      "line-numbers": "n"
     },
     default: {
       "help": false,
       "version": false,
-      "stdout": false
+      "stdout": false,
+      "watch": false,
+      "serve": false,
+      "format": "html",
+      "port": "8000"
     }
   });
 
   if (args.help) {
     console.log(`
 Usage: litsdoc.ts [file1] [file2] [...] [options]
+       litsdoc.ts diff <rev-a> <rev-b> [file1] [file2] [...] [options]
+
+Inputs can be files, directories or quoted glob patterns ("src/**/*.rs").
+Directories and globs skip files ignored by .gitignore and files without a
+supported language.
+
+diff compares the files' comments and code between two git revisions and
+writes a side-by-side HTML report (default: litsdoc-diff.html).
 
 Options:
   -h, --help                    Show this help message
   -v, --version                 Show version information
-  -o, --output-html <file>      Output HTML file (default: first-input-file.html)
+  -o, --output-html <file>      Output file (default: first-input-file.html, or .md
+                                with --format markdown)
+  -O, --output-dir <dir>        Write one page per file plus index.html to <dir>
+  --no-toc                      Leave out the table of contents sidebar
+  --no-xref                     Don't link names to their definitions
+  -n, --line-numbers            Show source line numbers next to the code
+  --doc-comments-only           Only doc comments (/** */, /*! */, ///, //! and
+                                docstrings) become prose; others stay in the code
+  --nested-comments <mode>      Comments inside function bodies become prose
+                                (default) or stay in the code (code)
+  --weave-order <spec>          Present @section sections in this order: a comma-
+                                separated list of section names, or by-key to
+                                sort by the sections' order keys
+  --order <file>                Ordering manifest: files or globs (one per line) to
+                                put first; the rest follow in the default order
+  --line-anchor <style>         Line anchor style for --code-url links: github,
+                                gitlab, gitea, bitbucket, or a template such as
+                                "#L{start}-{end}" (default: guessed from the URL)
+  --theme <name>                Theme: default, light, dark, auto (follows the
+                                reader's light/dark preference), or any Shiki theme
+  --template <file>             Custom HTML template (see README for placeholders)
+  --extra-css <file>            Extra CSS added to every page
+  --format <format>             Output format: html (default) or markdown (a single
+                                GitHub Flavored Markdown document)
+  --emit-json <file>            Write the parsed blocks as JSON instead of rendering
+                                (use - for stdout)
+  --from-json <file>            Render from a JSON file written by --emit-json
+                                instead of parsing source files
   -s, --stdout                  Output HTML to stdout instead of file
-  -u, --code-url <url>          Base URL for linking to source files
+  -u, --code-url <url>          Base URL for linking to source files (default: the
+                                git remote's file URL at the current commit)
+  --git-ref <ref>               Link to this branch or tag instead of the commit
+  --no-git                      Don't ask git for the code URL
+  --git-info                    Show each file's last commit date, author and
+                                subject in its header
   -t, --title <title>           Custom title (markdown supported)
   -d, --description <desc>      Custom description (markdown supported)
   -f, --argfile <file>          Read arguments from file (overrides CLI args)
+  -c, --config <file>           Project config file (default: litsdoc.json, or
+                                the "litsdoc" key in deno.json)
+  -w, --watch                   Regenerate the output when an input file changes
+  --serve                       Serve the output on localhost with live reload
+                                (implies --watch)
+  --port <port>                 Port for --serve (default: 8000)
+  --no-cache                    Parse and highlight every file, without reading or
+                                writing the build cache in .litsdoc-cache/
+  --clean-cache                 Remove the build cache and exit
+  --timings                     Report how long parsing, highlighting, rendering
+                                and writing took, and the slowest files to parse
+  --comment-syntax <spec>       Regex comment syntax for extensions without a grammar
+                                (repeatable), e.g. ".lua:line=--|block=--[[ ]]"
+                                Rules: line=<prefix>, block=<open> <close>,
+                                nested, shiki=<language>
 
 Examples:
   litsdoc.ts hello.c
   litsdoc.ts a.c b.js --output-html docs.html
+  litsdoc.ts src/*.c --output-dir docs/
+  litsdoc.ts src/ --order docs/order.txt
+  litsdoc.ts "src/**/*.rs" --output-dir docs/
   litsdoc.ts hello.c --stdout > docs.html
   litsdoc.ts *.c --code-url https://github.com/user/repo/tree/main/
+  litsdoc.ts *.c --line-numbers --code-url https://gitlab.com/user/repo/-/blob/main/
   litsdoc.ts --title "My Project" --description "**Documentation** for my project"
   litsdoc.ts --argfile myproject.argfile
+  litsdoc.ts --config docs/litsdoc.json
+  litsdoc.ts src/*.c --serve --port 3000
+  litsdoc.ts hello.c --theme auto --extra-css branding.css
+  litsdoc.ts src/*.c --format markdown -o docs/README.md
+  litsdoc.ts src/*.c --emit-json blocks.json
+  litsdoc.ts --from-json blocks.json -o docs.html
+  litsdoc.ts src/*.c --weave-order overview,parser-setup,main-loop
+  litsdoc.ts boot.asm --comment-syntax ".asm:line=;|line=#"
+  litsdoc.ts diff v1.0 HEAD src/*.c -o changes.html
     `);
     Deno.exit(0);
   }
 
   if (args.version) {
-    console.log("litsdoc v1.2.0");
+    console.log(`litsdoc v${LITSDOC_VERSION}`);
+    Deno.exit(0);
+  }
+
+  if (args["clean-cache"]) {
+    await Deno.remove(CACHE_DIR, { recursive: true }).catch(error => {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    });
+    console.log(`Removed build cache: ${CACHE_DIR}`);
     Deno.exit(0);
   }
 
-  if (args._.length < 1) {
+  // `diff <rev-a> <rev-b>` compares two revisions of the files instead of documenting them
+  const positional = args._.map((arg: string | number) => String(arg));
+  const diff = positional[0] === 'diff' ? { from: positional[1], to: positional[2] } : undefined;
+  if (diff && (!diff.from || !diff.to)) {
+    console.error('Error: diff needs two revisions');
+    console.error('Usage: litsdoc.ts diff <rev-a> <rev-b> [file1] [file2] [...] [options]');
+    Deno.exit(1);
+  }
+  const inputArgs = diff ? positional.slice(3) : positional;
+
+  // Only discover a config implicitly when no files (or JSON document) were named on the command line
+  const project = args["config"] || (inputArgs.length === 0 && !args["from-json"])
+    ? await loadProjectConfig(args["config"])
+    : undefined;
+  const config: ProjectConfig = project?.config ?? {};
+  const resolve = (path: string) => project ? resolveConfigPath(project.baseDir, path) : path;
+  
+  const fileOptions: Record<string, FileOptions> = {};
+  const configFiles: string[] = [];
+  for (const entry of config.files ?? []) {
+    if (typeof entry === 'string') {
+      configFiles.push(resolve(entry));
+    } else {
+      const { path, ...options } = entry;
+      configFiles.push(resolve(path));
+      fileOptions[resolve(path)] = { ...options, intro: options.intro && resolve(options.intro) };
+    }
+  }
+
+  // Languages from --comment-syntax decide which files in a directory or glob are supported
+  const commentSyntax = [...(config.commentSyntax ?? []), ...args["comment-syntax"]];
+  registerCommentSyntaxes(commentSyntax);
+
+  const orderFile = args["order"];
+  const order = orderFile ? await readOrderManifest(orderFile) : (config.order ?? []).map(resolve);
+
+  // Files listed in a JSON document replace the source files
+  const fromJson = args["from-json"];
+  const inputs = fromJson ? [] : inputArgs.length > 0 ? inputArgs : configFiles;
+  const stdout = args["stdout"] || args["emit-json"] === '-';
+  const { files, skipped } = await expandInputs(inputs, order);
+  if (skipped > 0 && !stdout) {
+    console.log(`Skipped ${skipped} file(s) with unsupported extensions`);
+  }
+
+  const nestedComments = args["nested-comments"] ?? config.nestedComments;
+  if (nestedComments !== undefined && nestedComments !== 'prose' && nestedComments !== 'code') {
+    console.error(`Error: Invalid --nested-comments '${nestedComments}' (expected prose or code)`);
+    Deno.exit(1);
+  }
+
+  // Global comment handling modes are defaults that per-file options can override
+  const docCommentsOnly = args["doc-comments-only"] || config.docCommentsOnly;
+  if (docCommentsOnly || nestedComments) {
+    for (const file of files) {
+      fileOptions[file] = {
+        ...(docCommentsOnly && { docCommentsOnly }),
+        ...(nestedComments && { nestedComments }),
+        ...fileOptions[file]
+      };
+    }
+  }
+
+  if (files.length < 1 && !fromJson) {
     console.error('Error: At least one input file is required');
     console.error('Usage: litsdoc.ts [file1] [file2] [...] [options]');
     console.error('Use --help for more information');
     Deno.exit(1);
   }
 
-  const files = args._.map(f => String(f));
-  const outputHtml = args["output-html"] || files[0].replace(/\.[^.]+$/, '.html');
-  const codeUrl = args["code-url"];
-  const title = args["title"];
-  const description = args["description"];
-  const stdout = args["stdout"];
+  // JSON is written by --emit-json rather than being a --format of its own
+  const emitJson = args["emit-json"];
+  if (args["format"] !== 'html' && args["format"] !== 'markdown') {
+    console.error(`Error: Unknown format '${args["format"]}' (expected html or markdown; use --emit-json for JSON)`);
+    Deno.exit(1);
+  }
+  const format = emitJson ? 'json' : args["format"];
+
+  const outputHtml = (diff && (args["output-html"] || 'litsdoc-diff.html')) ||
+    (emitJson !== '-' && emitJson) ||
+    args["output-html"] ||
+    (config.output && resolve(config.output)) ||
+    (files[0] ?? fromJson).replace(/\.[^.]+$/, format === 'markdown' ? '.md' : '.html');
+  const outputDir = diff ? undefined : (args["output-dir"] || (config.outputDir && resolve(config.outputDir)))?.replace(/\/+$/, '') || undefined;
+  // A JSON document carries its own code URLs
+  const git = args["git"] ?? config.git ?? true;
+  const codeUrl = args["code-url"] ?? config.codeUrl ??
+    (git && !fromJson && !diff ? await detectGitCodeUrl(args["git-ref"] ?? config.gitRef, files) : undefined);
+  const title = args["title"] ?? config.title;
+  const description = args["description"] ?? config.description;
+  const serve = args["serve"];
+  const watch = args["watch"] || serve;
+  const port = Number(args["port"]);
+
+  if (watch && stdout) {
+    console.error('Error: --watch and --serve cannot be combined with --stdout');
+    Deno.exit(1);
+  }
+
+  if (outputDir && stdout) {
+    console.error('Error: --output-dir cannot be combined with --stdout');
+    Deno.exit(1);
+  }
+
+  if (format === 'markdown' && (outputDir || serve)) {
+    console.error('Error: --format markdown writes a single document and cannot be combined with --output-dir or --serve');
+    Deno.exit(1);
+  }
+
+  const weaveOrder = args["weave-order"] === 'by-key'
+    ? 'by-key'
+    : args["weave-order"]?.split(',').map((name: string) => name.trim()).filter(Boolean) ?? config.weaveOrder;
+  if (weaveOrder && outputDir) {
+    console.error('Error: --weave-order cannot be combined with --output-dir');
+    Deno.exit(1);
+  }
+
+  if (emitJson && (outputDir || serve || fromJson)) {
+    console.error('Error: --emit-json cannot be combined with --output-dir, --serve or --from-json');
+    Deno.exit(1);
+  }
+
+  if (diff && (args["output-dir"] || format !== 'html' || watch || fromJson || args["weave-order"])) {
+    console.error('Error: diff writes a single HTML report and cannot be combined with --output-dir, --format, --emit-json, --watch, --serve, --from-json or --weave-order');
+    Deno.exit(1);
+  }
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`Error: Invalid port '${args["port"]}'`);
+    Deno.exit(1);
+  }
+
+  const lineAnchor = args["line-anchor"] ?? config.lineAnchor;
+  if (lineAnchor && !LINE_ANCHOR_STYLES[lineAnchor] && !lineAnchor.includes('{start}')) {
+    console.error(`Error: Unknown line anchor style '${lineAnchor}' (expected ${Object.keys(LINE_ANCHOR_STYLES).join(', ')} or a template with {start} and {end})`);
+    Deno.exit(1);
+  }
 
   return {
     files,
+    inputs,
+    order,
+    fileOptions,
     outputHtml,
+    outputDir,
     codeUrl,
     title,
     description,
+    theme: args["theme"] ?? config.theme,
+    template: args["template"] ?? (config.template && resolve(config.template)),
+    extraCss: args["extra-css"] ?? (config.extraCss && resolve(config.extraCss)),
+    toc: args["toc"] ?? config.toc ?? true,
+    xref: args["xref"] ?? config.xref ?? true,
+    cache: args["cache"] ?? config.cache ?? true,
+    gitInfo: git && (args["git-info"] || (config.gitInfo ?? false)),
+    lineNumbers: args["line-numbers"] || (config.lineNumbers ?? false),
+    lineAnchor,
+    format,
+    fromJson,
+    weaveOrder,
+    orderFile,
+    diff,
+    config: project?.path,
+    argfile: initialArgs.argfile,
+    commentSyntax,
     stdout,
+    watch,
+    serve,
+    port,
+    timings: args["timings"],
     help: args.help,
     version: args.version
   };
 }
 
+/**
+ * ## Comment Syntax Specifications
+ * 
+ * Parses a `--comment-syntax` value into a language registration. The spec
+ * names one or more comma-separated extensions, then `|`-separated rules:
+ * 
+ * - `line=<prefix>`: a line-comment prefix (repeatable)
+ * - `block=<open> <close>`: a block-comment delimiter pair (repeatable)
+ * - `nested`: block comments may nest
+ * - `shiki=<language>`: Shiki language used for highlighting
+ * 
+ * For example `.lua:line=--|block=--[[ ]]`. Without `shiki=`, highlighting
+ * keeps whatever Shiki language the extension already had, or plain text.
+ */
+function parseCommentSyntaxSpec(spec: string): { name: string; definition: LanguageDefinition } {
+  const separator = spec.indexOf(':');
+  if (separator === -1) {
+    throw new Error(`Invalid comment syntax '${spec}': expected <extensions>:<rules>`);
+  }
+  
+  const extensions = spec.slice(0, separator).split(',').map(ext => ext.trim()).filter(Boolean);
+  const syntax: CommentSyntax = {};
+  let shikiLanguage = resolveLanguage(extensions[0])?.definition.shikiLanguage || 'text';
+  
+  for (const rule of spec.slice(separator + 1).split('|')) {
+    const [key, ...rest] = rule.split('=');
+    const value = rest.join('=');
+    
+    if (key === 'line' && value) {
+      (syntax.line ??= []).push(value);
+    } else if (key === 'block' && value.trim().split(/\s+/).length === 2) {
+      const [open, close] = value.trim().split(/\s+/);
+      (syntax.block ??= []).push([open, close]);
+    } else if (key === 'nested' && !value) {
+      syntax.nested = true;
+    } else if (key === 'shiki' && value) {
+      shikiLanguage = value;
+    } else {
+      throw new Error(`Invalid comment syntax rule '${rule}' in '${spec}'`);
+    }
+  }
+  
+  return {
+    name: `custom:${extensions.join(',')}`,
+    definition: {
+      extensions,
+      grammar: null,
+      commentNodeTypes: [],
+      shikiLanguage,
+      commentSyntax: syntax
+    }
+  };
+}
+
 /**
  * ## Comment Content Extraction Patterns
  * 
  * Pattern matching for different comment styles to enable language-agnostic parsing.
  */
 const COMMENT_PATTERNS = [
+  {
+    // Python docstrings: strip the quotes and the common indentation
+    test: (s: string) => /^[rRuU]?("""|'''|"|')/.test(s),
+    clean: (s: string) => dedent(s.replace(/^[rRuU]?("""|'''|"|')([\s\S]*)\1$/, '$2')).trim()
+  },
   {
     test: (s: string) => s.startsWith('/*'),
     clean: (s: string) => s
-      .replace(/^\/\*\*?/, '')
+      .replace(/^\/\*[*!]?/, '')
       .replace(/\*\/$/, '')
       .split('\n')
       .map(line => line.replace(/^\s*\*\s?/, ''))
@@ -471,7 +2053,7 @@ const COMMENT_PATTERNS = [
     test: (s: string) => s.startsWith('//'),
     clean: (s: string) => s
       .split('\n')
-      .map(line => line.replace(/^\s*\/\/\s?/, ''))
+      .map(line => line.replace(/^\s*\/\/[\/!]?\s?/, ''))
       .join('\n')
       .trim()
   },
@@ -497,6 +2079,19 @@ const COMMENT_PATTERNS = [
   }
 ];
 
+/**
+ * Removes the indentation shared by every non-blank line after the first,
+ * mirroring how Python's `inspect.cleandoc` treats docstrings.
+ */
+function dedent(text: string): string {
+  const [first, ...rest] = text.split('\n');
+  const indents = rest
+    .filter(line => line.trim())
+    .map(line => line.match(/^\s*/)![0].length);
+  const common = indents.length ? Math.min(...indents) : 0;
+  return [first.trim(), ...rest.map(line => line.slice(common))].join('\n');
+}
+
 function getFileExtension(filename: string): string {
   const match = filename.match(/\.[^.]+$/);
   return match ? match[0] : '';
@@ -511,6 +2106,7 @@ function getFileExtension(filename: string): string {
  * identifies it as a comment.
  * 
  * Handles:
+ * - Python docstrings
  * - C-style block comments
  * - C++/JS/TS line comments
  * - Python/Shell comments
@@ -536,20 +2132,24 @@ function extractCommentContent(rawComment: string): string {
  * Includes an optional link to the source file on GitHub or other repositories.
  * The header uses a file icon and distinctive styling to mark file boundaries.
  */
-function generateFileHeader(fileName: string, codeUrl?: string): string {
-  const displayName = fileName.split('/').pop() || fileName;
-  const fileLink = codeUrl ? `${codeUrl.endsWith('/') ? codeUrl : codeUrl + '/'}${fileName}` : '';
+function generateFileHeader(fileName: string, codeUrl?: string, customDisplayName?: string, anchor?: string, gitInfo?: GitFileInfo): string {
+  const displayName = customDisplayName || fileName.split('/').pop() || fileName;
+  const fileLink = getFileUrl(fileName, codeUrl);
   
   const headerContent = fileLink 
     ? `<a href="${fileLink}" target="_blank" rel="noopener noreferrer" class="text-blue-600 hover:text-blue-800 hover:underline">${displayName}</a>`
     : displayName;
+  
+  const details = gitInfo
+    ? `<span class="text-gray-500 text-sm">Last changed ${gitInfo.date} by ${escapeHtml(gitInfo.author)}: ${escapeHtml(gitInfo.subject)}</span>`
+    : '<span class="text-gray-500 text-sm italic">Source file</span>';
 
   return `
     <!-- File Header: ${fileName} -->
     <div class="bg-gray-100 border-b-2 border-gray-300 lg:flex w-full">
       <div class="w-full lg:w-2/5 bg-gray-50 border-r border-gray-300">
         <div class="p-6">
-          <h2 class="text-xl font-semibold text-gray-800 mb-2">
+          <h2 ${anchor ? `id="${anchor}" ` : ''}class="text-xl font-semibold text-gray-800 mb-2">
             <svg class="inline-block w-4 h-4 mr-2 text-gray-600" fill="currentColor" viewBox="0 0 20 20">
               <path fill-rule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4zm2 6a1 1 0 011-1h6a1 1 0 110 2H7a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H7z" clip-rule="evenodd"></path>
             </svg>
@@ -560,7 +2160,7 @@ function generateFileHeader(fileName: string, codeUrl?: string): string {
       <div class="hidden lg:block w-3/5 bg-gray-100">
         <div class="p-6">
           <div class="h-full min-h-[3rem] flex items-center">
-            <span class="text-gray-500 text-sm italic">Source file</span>
+            ${details}
           </div>
         </div>
       </div>
@@ -568,73 +2168,312 @@ function generateFileHeader(fileName: string, codeUrl?: string): string {
 }
 
 /**
- * ## Regex-based Comment Parser for Linker Scripts
- * 
- * Extracts C-style comments from linker scripts using regex patterns.
- * This fallback is used when tree-sitter parsers aren't available.
- * Specifically handles multi-line comments (slash-star ... star-slash) in .ld files.
+ * The code URL stands for the working directory, so absolute file names are
+ * made relative to it first, and `./` and `../` resolve against the URL as
+ * they do on disk.
  */
-function parseLinkerScriptComments(sourceCode: string, fileName: string): LiterateBlock[] {
-  const lines = sourceCode.split('\n');
-  const blocks: LiterateBlock[] = [];
-  
-  // Regex to match C-style block comments /* ... */
-  const commentRegex = /\/\*[\s\S]*?\*\//g;
-  let match;
-  
-  while ((match = commentRegex.exec(sourceCode)) !== null) {
-    const commentText = match[0];
-    const matchStart = match.index;
-    
-    // Find line numbers for this comment
-    const beforeComment = sourceCode.substring(0, matchStart);
-    const startLine = beforeComment.split('\n').length;
-    const commentLines = commentText.split('\n');
-    const endLine = startLine + commentLines.length - 1;
-    
-    // Clean the comment content
-    const cleanContent = extractCommentContent(commentText);
-    
-    if (cleanContent.trim()) {
-      blocks.push({
-        type: 'comment',
-        content: cleanContent,
-        lineStart: startLine,
-        lineEnd: endLine,
-        fileName: fileName
-      });
-    }
+function getFileUrl(fileName: string, codeUrl?: string): string {
+  if (!codeUrl) {
+    return '';
   }
-  
-  return blocks.sort((a, b) => a.lineStart - b.lineStart);
+  const base = codeUrl.endsWith('/') ? codeUrl : codeUrl + '/';
+  const path = fileName.startsWith('/') ? toRelativePath(fileName) : fileName;
+  return URL.canParse(base) ? new URL(path, base).href : base + path;
 }
 
 /**
- * ## Block Building Helper
+ * ## Source Line Links
  * 
- * Builds alternating sequence of comment and code blocks from extracted comments.
- * This helper is used by both tree-sitter parsing and regex fallback parsing.
+ * Code hosts disagree on how to link to a range of lines, so the fragment
+ * appended to a file's URL comes from a template with `{start}` and `{end}`
+ * placeholders. Without `--line-anchor`, the style is guessed from the host
+ * in `--code-url` and falls back to GitHub's.
  */
-function buildAlternatingBlocks(comments: LiterateBlock[], sourceCode: string, inputFile: string): LiterateBlock[] {
-  const lines = sourceCode.split('\n');
-  const ext = getFileExtension(inputFile);
+const LINE_ANCHOR_STYLES: Record<string, string> = {
+  github: '#L{start}-L{end}',
+  gitlab: '#L{start}-{end}',
+  gitea: '#L{start}-L{end}',
+  bitbucket: '#lines-{start}:{end}',
+};
+
+function getLineUrl(fileName: string, codeUrl: string | undefined, block: LiterateBlock, lineAnchor?: string): string {
+  const fileUrl = getFileUrl(fileName, codeUrl);
+  if (!fileUrl) {
+    return '';
+  }
+  
+  const style = lineAnchor ?? guessCodeHost(fileUrl);
+  const template = LINE_ANCHOR_STYLES[style] ?? style;
+  
+  return fileUrl + template
+    .replace(/{start}/g, String(block.lineStart))
+    .replace(/{end}/g, String(block.lineEnd));
+}
+
+function guessCodeHost(url: string): 'github' | 'gitlab' | 'gitea' | 'bitbucket' {
+  return /gitlab/.test(url) ? 'gitlab' :
+    /bitbucket/.test(url) ? 'bitbucket' :
+    /gitea|codeberg/.test(url) ? 'gitea' :
+    'github';
+}
+
+/**
+ * ## Git Integration
+ * 
+ * Without `--code-url`, litsdoc asks `git` for the `origin` remote and the
+ * current commit and links to the files on the code host, pinned to the
+ * commit so links keep pointing at the code that was documented. Pass
+ * `--git-ref` to link a branch or tag instead, or `--no-git` to leave git
+ * alone. Nothing is detected outside a repository or without a remote on
+ * a web host.
+ * 
+ * With `--git-info`, each file header also shows when the file last
+ * changed, who changed it and the commit's subject.
+ */
+interface GitFileInfo {
+  date: string;
+  author: string;
+  subject: string;
+}
+
+const GIT_HOST_FILE_PATHS: Record<ReturnType<typeof guessCodeHost>, string> = {
+  github: '/blob/{ref}/',
+  gitlab: '/-/blob/{ref}/',
+  gitea: '/src/{kind}/{ref}/',
+  bitbucket: '/src/{ref}/'
+};
+
+/**
+ * Runs `git` and returns its output, trimmed unless it is file content,
+ * or `undefined` if it fails or isn't installed.
+ */
+async function runGit(args: string[], trim = true): Promise<string | undefined> {
+  try {
+    const { success, stdout } = await new Deno.Command('git', { args, stdout: 'piped', stderr: 'null' }).output();
+    const output = new TextDecoder().decode(stdout);
+    return success ? (trim ? output.trim() : output) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds the code URL for files named relative to the working directory,
+ * e.g. `https://github.com/user/repo/blob/<sha>/docs/` when run in `docs/`.
+ * 
+ * Links can only show what the host has, so this warns when the commit
+ * hasn't been pushed to any remote branch, or when some of `files` have
+ * uncommitted changes.
+ */
+async function detectGitCodeUrl(ref: string | undefined, files: string[]): Promise<string | undefined> {
+  const [remote, sha, prefix] = await Promise.all([
+    runGit(['remote', 'get-url', 'origin']),
+    ref ? Promise.resolve(ref) : runGit(['rev-parse', 'HEAD']),
+    runGit(['rev-parse', '--show-prefix'])
+  ]);
+  const repositoryUrl = remote && getRepositoryWebUrl(remote);
+  if (!repositoryUrl || !sha) {
+    return undefined;
+  }
+  
+  const [pushed, changes, isTag] = await Promise.all([
+    ref ? Promise.resolve('ref') : runGit(['branch', '--remotes', '--contains', sha]),
+    files.length > 0 ? runGit(['status', '--porcelain', '--', ...files]) : Promise.resolve(''),
+    runGit(['show-ref', '--verify', '--quiet', `refs/tags/${sha}`])
+  ]);
+  if (!pushed) {
+    console.warn(`Warning: commit ${sha.slice(0, 7)} isn't on any remote branch, so source links won't resolve until it is pushed (or pass --git-ref)`);
+  }
+  if (changes) {
+    const count = changes.split('\n').length;
+    console.warn(`Warning: ${count} documented file(s) have uncommitted changes, so their source links may show different code`);
+  }
+  
+  const kind = /^[0-9a-f]{40}$/.test(sha) ? 'commit' : isTag !== undefined ? 'tag' : 'branch';
+  const path = GIT_HOST_FILE_PATHS[guessCodeHost(repositoryUrl)]
+    .replace('{kind}', kind)
+    .replace('{ref}', sha);
+  return `${repositoryUrl}${path}${prefix ?? ''}`;
+}
+
+/**
+ * Turns a remote such as `git@github.com:user/repo.git` or
+ * `https://token@gitlab.com/group/repo.git` into the repository's web
+ * address, dropping any credentials. Local paths have none.
+ */
+function getRepositoryWebUrl(remote: string): string | undefined {
+  const match = remote.match(/^(?:[a-z+]+:\/\/)?(?:[^@\/]+@)?([^:\/]+)(?::\d+)?[:\/](.+?)(?:\.git)?\/?$/);
+  return match ? `https://${match[1]}/${match[2]}` : undefined;
+}
+
+async function getGitFileInfo(fileName: string): Promise<GitFileInfo | undefined> {
+  const output = await runGit(['log', '-1', '--format=%cs%x1f%an%x1f%s', '--', fileName]);
+  if (!output) {
+    return undefined;
+  }
+  const [date, author, subject] = output.split('\x1f');
+  return { date, author, subject };
+}
+
+async function readGitFileInfo(processedFiles: ProcessedFile[]): Promise<Map<string, GitFileInfo>> {
+  const fileNames = [...new Set(processedFiles.map(file => file.fileName))];
+  const infos = await mapConcurrently(fileNames, getGitFileInfo);
+  return new Map(fileNames.flatMap((fileName, i) => infos[i] ? [[fileName, infos[i]!] as const] : []));
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * ## Regex-based Comment Parser
+ * 
+ * Extracts comments from languages without a tree-sitter grammar using the
+ * language's `CommentSyntax`. This fallback handles linker scripts, shell
+ * scripts, Makefiles, SQL, Lua, YAML, TOML and assembly out of the box.
+ * 
+ * Only comments that occupy whole lines become prose: a comment that shares
+ * a line with code stays in the code block. Consecutive line comments are
+ * merged into a single block, and a `#!` shebang on the first line is code.
+ * Strings are not tokenized, so a comment delimiter inside a string that
+ * starts a line will still be treated as a comment.
+ */
+function parseCommentsWithSyntax(sourceCode: string, fileName: string, syntax: CommentSyntax): LiterateBlock[] {
+  const lines = sourceCode.split('\n');
+  const blocks: LiterateBlock[] = [];
+  
+  // Offset of the first character of each line within the source
+  const lineOffsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineOffsets.push(offset);
+    offset += line.length + 1;
+  }
+  const lineAt = (index: number) => {
+    let line = 0;
+    while (line + 1 < lineOffsets.length && lineOffsets[line + 1] <= index) line++;
+    return line;
+  };
+  
+  let i = 0;
+  while (i < lines.length) {
+    const trimmed = lines[i].trimStart();
+    
+    // Block comments are checked first so that e.g. Lua's `--[[` wins over `--`
+    const delimiters = syntax.block?.find(([open]) => trimmed.startsWith(open));
+    if (delimiters) {
+      const start = lineOffsets[i] + (lines[i].length - trimmed.length);
+      const end = findBlockCommentEnd(sourceCode, start, delimiters, syntax.nested ?? false);
+      const endLine = end === -1 ? -1 : lineAt(end - 1);
+      
+      if (end !== -1 && !sourceCode.slice(end, lineOffsets[endLine] + lines[endLine].length).trim()) {
+        const commentText = sourceCode.slice(start, end);
+        const cleanContent = cleanBlockComment(commentText, delimiters);
+        if (cleanContent.trim()) {
+          blocks.push({
+            type: 'comment',
+            content: cleanContent,
+            lineStart: i + 1,
+            lineEnd: endLine + 1,
+            fileName: fileName
+          });
+        }
+        i = endLine + 1;
+        continue;
+      }
+      
+      // A block comment followed by code, or never closed, is code, and so is anything inside it
+      if (end === -1) {
+        break;
+      }
+      i = endLine + 1;
+      continue;
+    }
+    
+    const prefix = syntax.line?.find(p => trimmed.startsWith(p));
+    if (prefix && !(i === 0 && trimmed.startsWith('#!'))) {
+      let j = i;
+      while (j < lines.length && lines[j].trimStart().startsWith(prefix)) j++;
+      
+      const cleanContent = lines.slice(i, j)
+        .map(line => line.trimStart().slice(prefix.length).replace(/^ /, ''))
+        .join('\n')
+        .trim();
+      if (cleanContent) {
+        blocks.push({
+          type: 'comment',
+          content: cleanContent,
+          lineStart: i + 1,
+          lineEnd: j,
+          fileName: fileName
+        });
+      }
+      i = j;
+      continue;
+    }
+    
+    i++;
+  }
+  
+  return blocks;
+}
+
+/**
+ * Finds the index just past the delimiter that closes the block comment
+ * opened at `start`, or -1 if the comment is never closed. With nesting
+ * enabled, every inner opening delimiter needs its own closing delimiter.
+ */
+function findBlockCommentEnd(source: string, start: number, [open, close]: [string, string], nested: boolean): number {
+  let depth = 1;
+  let position = start + open.length;
+  
+  while (depth > 0) {
+    const nextClose = source.indexOf(close, position);
+    if (nextClose === -1) {
+      return -1;
+    }
+    
+    const nextOpen = nested ? source.indexOf(open, position) : -1;
+    if (nextOpen !== -1 && nextOpen < nextClose) {
+      depth++;
+      position = nextOpen + open.length;
+    } else {
+      depth--;
+      position = nextClose + close.length;
+    }
+  }
+  
+  return position;
+}
+
+/**
+ * Strips the delimiters from a block comment. C-style comments reuse the
+ * `COMMENT_PATTERNS` cleaner so leading `*` decorations are removed too.
+ */
+function cleanBlockComment(commentText: string, [open, close]: [string, string]): string {
+  if (open === '/*') {
+    return extractCommentContent(commentText);
+  }
+  return dedent(commentText.slice(open.length, commentText.length - close.length)).trim();
+}
+
+/**
+ * ## Block Building Helper
+ * 
+ * Builds alternating sequence of comment and code blocks from extracted comments.
+ * This helper is used by both tree-sitter parsing and regex fallback parsing.
+ */
+function buildAlternatingBlocks(comments: LiterateBlock[], sourceCode: string, inputFile: string, language: string): LiterateBlock[] {
+  const lines = sourceCode.split('\n');
   const result: LiterateBlock[] = [];
   let lastLine = 0;
   
   for (const commentBlock of comments) {
     // Add code before this comment
     if (lastLine < commentBlock.lineStart - 1) {
-      const codeLines = lines.slice(lastLine, commentBlock.lineStart - 1);
-      const codeContent = codeLines.join('\n').trim();
-      if (codeContent) {
-        result.push({
-          type: 'code',
-          content: codeContent,
-          language: ext.substring(1),
-          lineStart: lastLine + 1,
-          lineEnd: commentBlock.lineStart - 1,
-          fileName: inputFile
-        });
+      const code = trimBlankLines(lines, lastLine + 1, commentBlock.lineStart - 1);
+      if (code) {
+        result.push({ type: 'code', ...code, language, fileName: inputFile });
       }
     }
     
@@ -644,17 +2483,64 @@ function buildAlternatingBlocks(comments: LiterateBlock[], sourceCode: string, i
   
   // Add remaining code after last comment
   if (lastLine < lines.length) {
-    const codeLines = lines.slice(lastLine);
-    const codeContent = codeLines.join('\n').trim();
-    if (codeContent) {
-      result.push({
-        type: 'code',
-        content: codeContent,
-        language: ext.substring(1),
-        lineStart: lastLine + 1,
-        lineEnd: lines.length,
-        fileName: inputFile
-      });
+    const code = trimBlankLines(lines, lastLine + 1, lines.length);
+    if (code) {
+      result.push({ type: 'code', ...code, language, fileName: inputFile });
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Takes the source lines `start` to `end` (1-based, inclusive) and drops
+ * blank lines at either end, adjusting the line range to match. Unlike
+ * trimming the joined text, this keeps the first line's indentation, so
+ * the code and its line numbers still match the source.
+ */
+function trimBlankLines(lines: string[], start: number, end: number): { content: string; lineStart: number; lineEnd: number } | undefined {
+  while (start <= end && !lines[start - 1].trim()) start++;
+  while (end >= start && !lines[end - 1].trim()) end--;
+  
+  if (start > end) {
+    return undefined;
+  }
+  return { content: lines.slice(start - 1, end).join('\n').trimEnd(), lineStart: start, lineEnd: end };
+}
+
+/**
+ * ## Line Range Exclusion
+ * 
+ * Removes the line ranges a project config excludes from a file. Comments
+ * touching an excluded range are dropped entirely, while code blocks are
+ * split around the excluded lines so that the rest of the code survives.
+ */
+function excludeLineRanges(blocks: LiterateBlock[], sourceCode: string, ranges: [number, number][]): LiterateBlock[] {
+  if (ranges.length === 0) {
+    return blocks;
+  }
+  
+  const isExcluded = (line: number) => ranges.some(([start, end]) => line >= start && line <= end);
+  const lines = sourceCode.split('\n');
+  const result: LiterateBlock[] = [];
+  
+  for (const block of blocks) {
+    if (block.type === 'comment') {
+      if (!ranges.some(([start, end]) => block.lineStart <= end && block.lineEnd >= start)) {
+        result.push(block);
+      }
+      continue;
+    }
+    
+    let runStart = block.lineStart;
+    for (let line = block.lineStart; line <= block.lineEnd + 1; line++) {
+      if (line <= block.lineEnd && !isExcluded(line)) continue;
+      
+      const code = trimBlankLines(lines, runStart, line - 1);
+      if (code) {
+        result.push({ ...block, ...code });
+      }
+      runStart = line + 1;
     }
   }
   
@@ -669,27 +2555,45 @@ function buildAlternatingBlocks(comments: LiterateBlock[], sourceCode: string, i
  * ### How it works:
  * 1. **Initialize Parser**: Sets up tree-sitter with the appropriate language grammar
  * 2. **Parse AST**: Generates an Abstract Syntax Tree of the source code
- * 3. **Extract Comments**: Traverses the AST to find all comment nodes
+ * 3. **Extract Comments**: Traverses the AST to find all comment nodes that
+ *    occupy whole lines, merging consecutive line comments into one block.
+ *    Trailing comments, and with `nestedComments: 'code'` comments inside
+ *    function bodies, stay in the code
  * 4. **Build Blocks**: Creates alternating comment and code blocks
  * 5. **Sort and Return**: Returns blocks in source order
  * 
  * This approach is language-agnostic - we don't need to know comment syntax,
  * just identify comment nodes in the AST.
  */
-async function parseSourceFile(inputFile: string): Promise<LiterateBlock[]> {
-  const ext = getFileExtension(inputFile);
-  const LanguageParser = LANGUAGE_MAP[ext as keyof typeof LANGUAGE_MAP];
-  
-  const sourceCode = await Deno.readTextFile(inputFile);
+async function parseSourceFile(inputFile: string, options: FileOptions = {}): Promise<LiterateBlock[]> {
+  return parseSourceText(await Deno.readTextFile(inputFile), inputFile, options);
+}
+
+/**
+ * Parses source code that has already been read, e.g. an older revision
+ * of `inputFile` for `litsdoc diff`.
+ */
+function parseSourceText(sourceCode: string, inputFile: string, options: FileOptions = {}): LiterateBlock[] {
+  const language = options.language
+    ? { name: options.language, definition: LANGUAGE_REGISTRY[options.language] }
+    : resolveLanguage(inputFile);
   
-  // Special handling for .ld files using regex fallback
-  if (LanguageParser === null && ext === '.ld') {
-    const comments = parseLinkerScriptComments(sourceCode, inputFile);
-    return buildAlternatingBlocks(comments, sourceCode, inputFile);
+  if (!language?.definition) {
+    throw new Error(options.language
+      ? `Unknown language '${options.language}' for ${inputFile}`
+      : `Unsupported file extension: ${getFileExtension(inputFile)}`);
   }
   
-  if (!LanguageParser) {
-    throw new Error(`Unsupported file extension: ${ext}`);
+  const { name: languageName, definition } = language;
+  // Parsing is synchronous, so this times the file alone even while others are read concurrently
+  const parseStart = performance.now();
+  
+  // Languages without a grammar (e.g. .ld files) use the regex fallback
+  if (definition.grammar === null) {
+    const comments = parseCommentsWithSyntax(sourceCode, inputFile, definition.commentSyntax ?? {});
+    const blocks = weaveBlocks(comments, sourceCode, inputFile, languageName, options);
+    fileTimings.set(inputFile, performance.now() - parseStart);
+    return blocks;
   }
   
   const lines = sourceCode.split('\n');
@@ -697,7 +2601,7 @@ async function parseSourceFile(inputFile: string): Promise<LiterateBlock[]> {
   let parser: Parser;
   try {
     parser = new Parser();
-    parser.setLanguage(LanguageParser);
+    parser.setLanguage(definition.grammar);
   } catch (error) {
     console.error('Failed to initialize tree-sitter parser:', error.message);
     throw error;
@@ -712,30 +2616,53 @@ async function parseSourceFile(inputFile: string): Promise<LiterateBlock[]> {
   }
   
   const comments: LiterateBlock[] = [];
+  const keepNestedComments = options.nestedComments === 'code';
+  let previousPrefix: string | undefined;
   
-  function traverse(node: any) {
+  function traverse(node: any, insideFunction: boolean) {
     try {
-      // Check for different comment node types across languages
-      if (node.type === 'comment' || node.type === 'line_comment' || node.type === 'block_comment') {
+      // Each grammar names its comment nodes differently
+      const isDocString = definition.isDocString?.(node) ?? false;
+      if (definition.commentNodeTypes.includes(node.type) || isDocString) {
         const startLine = node.startPosition.row;
-        const endLine = node.endPosition.row;
         const content = node.text;
+        // Some grammars (e.g. Rust) include the line comment's newline in the node
+        const endLine = node.endPosition.column === 0 && node.endPosition.row > startLine
+          ? node.endPosition.row - 1
+          : node.endPosition.row;
         
-        // Extract clean content from comment (language-agnostic)
-        const cleanContent = extractCommentContent(content);
+        // Comments sharing a line with code stay in the code, and so may comments in function bodies
+        const before = lines[startLine].slice(0, node.startPosition.column);
+        const after = endLine === node.endPosition.row ? lines[endLine].slice(node.endPosition.column) : '';
+        const isProse = !before.trim() && !after.trim() && !(keepNestedComments && insideFunction && !isDocString);
         
-        comments.push({
-          type: 'comment',
-          content: cleanContent,
-          lineStart: startLine + 1,
-          lineEnd: endLine + 1,
-          fileName: inputFile
-        });
+        if (isProse) {
+          // Extract clean content from comment (language-agnostic)
+          const cleanContent = extractCommentContent(content);
+          const prefix = isDocString ? undefined : content.match(LINE_COMMENT_PREFIX)?.[0];
+          const previous = comments[comments.length - 1];
+          
+          // Consecutive line comments of the same kind form one block
+          if (prefix && prefix === previousPrefix && previous.lineEnd === startLine) {
+            previous.content = `${previous.content}\n${cleanContent}`;
+            previous.lineEnd = endLine + 1;
+          } else {
+            comments.push({
+              type: 'comment',
+              content: cleanContent,
+              lineStart: startLine + 1,
+              lineEnd: endLine + 1,
+              fileName: inputFile
+            });
+          }
+          previousPrefix = prefix;
+        }
       }
       
       if (node.children) {
+        const childInsideFunction = insideFunction || (definition.functionNodeTypes?.includes(node.type) ?? false);
         for (const child of node.children) {
-          traverse(child);
+          traverse(child, childInsideFunction);
         }
       }
     } catch (error) {
@@ -744,7 +2671,7 @@ async function parseSourceFile(inputFile: string): Promise<LiterateBlock[]> {
   }
   
   try {
-    traverse(tree.rootNode);
+    traverse(tree.rootNode, false);
   } catch (error) {
     console.error('Error traversing AST:', error.message);
     throw error;
@@ -753,33 +2680,393 @@ async function parseSourceFile(inputFile: string): Promise<LiterateBlock[]> {
   // Sort comments by line number
   comments.sort((a, b) => a.lineStart - b.lineStart);
   
-  // Build alternating blocks using the helper function
-  return buildAlternatingBlocks(comments, sourceCode, inputFile);
+  const definitions = collectDefinitions(tree.rootNode, definition);
+  const blocks = weaveBlocks(comments, sourceCode, inputFile, languageName, options, definitions);
+  fileTimings.set(inputFile, performance.now() - parseStart);
+  return blocks;
 }
 
 /**
- * ## Multi-File Processor
+ * Finds the top-level definitions in a syntax tree. Function bodies are
+ * not searched, and neither are definitions themselves, so locals and the
+ * methods inside a class body are left out. Methods defined outside one
+ * are found: Go methods, functions in Rust `impl` blocks and qualified C++
+ * definitions (`Greeter::greet`). Type specifiers without a body
+ * (`struct foo *p`) only mention a type and don't count.
+ */
+function collectDefinitions(node: Parser.SyntaxNode, language: LanguageDefinition): { name: string; line: number }[] {
+  const definitions: { name: string; line: number }[] = [];
+  
+  for (const child of node.namedChildren) {
+    if (language.definitionNodeTypes?.includes(child.type)) {
+      const name = getDefinitionName(child);
+      const isMention = child.type.endsWith('_specifier') && !child.childForFieldName('body');
+      if (name && !isMention) {
+        definitions.push({ name, line: child.startPosition.row + 1 });
+      }
+    } else if (!language.functionNodeTypes?.includes(child.type)) {
+      definitions.push(...collectDefinitions(child, language));
+    }
+  }
+  
+  return definitions;
+}
+
+/**
+ * Follows a definition's `name` field, C-style `declarator` fields
+ * (`int *f(void)`) or the `left` side of a Python assignment down to the
+ * identifier being defined. Qualified C++ names (`Greeter::greet`) are
+ * indexed by their last part; assignments to attributes or several names
+ * at once define nothing.
+ */
+function getDefinitionName(node: Parser.SyntaxNode): string | undefined {
+  let current = node.childForFieldName('name') ?? node.childForFieldName('declarator') ?? node.childForFieldName('left');
+  while (current && (!current.type.endsWith('identifier') || current.type === 'qualified_identifier')) {
+    current = current.childForFieldName('declarator') ?? current.childForFieldName('name');
+  }
+  return current?.text;
+}
+
+/**
+ * Turns a file's comments into the final block list: applies directives,
+ * alternates prose with the code between it, removes hidden and excluded
+ * lines, and records which code block holds each definition.
+ */
+function weaveBlocks(comments: LiterateBlock[], sourceCode: string, inputFile: string, language: string, options: FileOptions, definitions: { name: string; line: number }[] = []): LiterateBlock[] {
+  const directives = applyDirectives(comments, sourceCode.split('\n'), options.docCommentsOnly ?? false);
+  const blocks = excludeLineRanges(
+    buildAlternatingBlocks(directives.prose, sourceCode, inputFile, language),
+    sourceCode,
+    [...(options.exclude ?? []), ...directives.hidden]
+  );
+  
+  // Collapse the first code block after each `litsdoc:collapse`
+  for (const line of directives.collapse) {
+    const code = blocks.find(block => block.type === 'code' && block.lineStart > line);
+    if (code) code.collapsed = true;
+  }
+  
+  // A section starts at the first block from its marker on
+  for (const { line, ...section } of directives.sections) {
+    const block = blocks.find(block => block.lineStart >= line);
+    if (block) block.section = section;
+  }
+  
+  // Definitions belong to the code block containing their first line
+  for (const { name, line } of definitions) {
+    const code = blocks.find(block => block.type === 'code' && block.lineStart <= line && line <= block.lineEnd);
+    if (code) (code.defines ??= []).push(name);
+  }
+  
+  return blocks;
+}
+
+const LINE_COMMENT_PREFIX = /^(\/\/[\/!]?|#|--)/;
+
+/**
+ * ## Directive Comments
+ * 
+ * Comments can steer what gets woven with `litsdoc:` directives:
+ * - `litsdoc:ignore`: this comment is not prose and stays in the code
+ * - `litsdoc:hide-start` / `litsdoc:hide-end`: the region between them
+ *   (including the directives) is left out of the output
+ * - `litsdoc:collapse`: the next code block is rendered collapsed
+ * - `@section <name> [<order>]` on a line of its own: starts a named section
+ *   (see `weaveSections`)
  * 
- * Processes multiple source files sequentially, building a collection
- * of processed files for combined documentation. Each file maintains
- * its own block structure while sharing common configuration like URLs.
+ * A directive counts only as the first word of a comment line outside
+ * fenced code, so prose can mention one in a code span without triggering
+ * it. Directives other than `ignore` are removed from the comment text, and
+ * a comment with nothing else in it disappears from the output. With
+ * `docCommentsOnly`, only comments starting with a doc comment marker
+ * (`/**`, `/*!`, `///`, `//!`) and Python docstrings become prose.
  */
-async function processMultipleFiles(files: string[], codeUrl?: string, quiet = false): Promise<ProcessedFile[]> {
-  const processedFiles: ProcessedFile[] = [];
+const DIRECTIVE_PATTERN = /^(\s*)litsdoc:([\w-]+)(?:[ \t]+|$)/;
+const SECTION_PATTERN = /^@section[ \t]+(\S+)(?:[ \t]+(\S+))?[ \t]*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const DOC_COMMENT_PATTERN = /^(\/\*\*(?!\/)|\/\*!|\/\/\/(?!\/)|\/\/!|[rRuU]?("""|'''))/;
+
+function applyDirectives(comments: LiterateBlock[], lines: string[], docCommentsOnly: boolean): {
+  prose: LiterateBlock[];
+  hidden: [number, number][];
+  collapse: number[];
+  sections: { line: number; name: string; order?: string }[];
+} {
+  const prose: LiterateBlock[] = [];
+  const hidden: [number, number][] = [];
+  const collapse: number[] = [];
+  const sections: { line: number; name: string; order?: string }[] = [];
+  let hideStart: LiterateBlock | undefined;
   
-  for (const file of files) {
-    if (!quiet) {
-      console.log(`Processing: ${file}`);
+  const warn = (comment: LiterateBlock, message: string) =>
+    console.warn(`Warning: ${comment.fileName}:${comment.lineStart}: ${message}`);
+  
+  for (const comment of comments) {
+    const { directives, section, text } = splitDirectives(comment.content);
+    
+    if (hideStart) {
+      if (directives.includes('hide-end')) {
+        hidden.push([hideStart.lineStart, comment.lineEnd]);
+        hideStart = undefined;
+      }
+      continue;
+    }
+    
+    if (directives.includes('ignore')) {
+      continue;
+    }
+    if (directives.includes('hide-start')) {
+      hideStart = comment;
+      continue;
+    }
+    
+    for (const directive of directives) {
+      if (directive === 'collapse') {
+        collapse.push(comment.lineEnd);
+      } else if (directive === 'hide-end') {
+        warn(comment, 'litsdoc:hide-end without a matching litsdoc:hide-start');
+      } else {
+        warn(comment, `unknown directive 'litsdoc:${directive}'`);
+      }
+    }
+    
+    if (section) {
+      sections.push({ line: comment.lineStart, ...section });
+    }
+    
+    const content = text.trim();
+    if (!content) {
+      hidden.push([comment.lineStart, comment.lineEnd]);
+    } else if (!docCommentsOnly || DOC_COMMENT_PATTERN.test(lines[comment.lineStart - 1].trimStart())) {
+      prose.push({ ...comment, content });
+    }
+  }
+  
+  if (hideStart) {
+    warn(hideStart, 'litsdoc:hide-start without a matching litsdoc:hide-end hides the rest of the file');
+    hidden.push([hideStart.lineStart, lines.length]);
+  }
+  
+  return { prose, hidden, collapse, sections };
+}
+
+/**
+ * Takes the directives and the `@section` marker out of a comment's text,
+ * leaving fenced code alone.
+ */
+function splitDirectives(content: string): { directives: string[]; section?: { name: string; order?: string }; text: string } {
+  const directives: string[] = [];
+  let section: { name: string; order?: string } | undefined;
+  let inFence = false;
+  
+  const lines = content.split('\n').flatMap(line => {
+    if (FENCE_PATTERN.test(line)) inFence = !inFence;
+    if (inFence) return [line];
+    
+    let match;
+    while ((match = line.match(DIRECTIVE_PATTERN))) {
+      directives.push(match[2]);
+      line = match[1] + line.slice(match[0].length);
+    }
+    const marker = line.trim().match(SECTION_PATTERN);
+    if (marker && !section) {
+      section = { name: marker[1], order: marker[2] };
+      return [];
+    }
+    return [line];
+  });
+  
+  return { directives, section, text: lines.join('\n') };
+}
+
+/**
+ * ## Multi-File Processor
+ * 
+ * Processes multiple source files concurrently, building a collection
+ * of processed files for combined documentation in the order given. Each
+ * file maintains its own block structure while sharing common configuration
+ * like URLs. Per-file overrides from the project config are applied here,
+ * and intro markdown files are read alongside their source file. Files
+ * found unchanged in the build cache aren't parsed again.
+ */
+async function processMultipleFiles(files: string[], codeUrl?: string, quiet = false, fileOptions: Record<string, FileOptions> = {}, cache?: BuildCache): Promise<ProcessedFile[]> {
+  return await mapConcurrently(files, async file => {
+    const options = fileOptions[file] ?? {};
+    let blocks = cache ? await readCachedBlocks(cache, file, options) : undefined;
+    if (!blocks) {
+      if (!quiet) {
+        console.log(`Processing: ${file}`);
+      }
+      blocks = await parseSourceFile(file, options);
+      if (cache) {
+        cache.files.get(file)!.blocks = blocks;
+      }
     }
-    const blocks = await parseSourceFile(file);
-    processedFiles.push({
+    return {
       fileName: file,
       blocks,
-      baseUrl: codeUrl
-    });
+      baseUrl: codeUrl,
+      displayName: options.displayName,
+      intro: options.intro ? await Deno.readTextFile(options.intro) : undefined
+    };
+  });
+}
+
+/**
+ * ## Build Cache
+ * 
+ * Unchanged files are neither parsed nor highlighted again. Each file's
+ * entry in `.litsdoc-cache/` is keyed by a hash of everything its output
+ * depends on: litsdoc's own source (which pins the versions of its
+ * dependencies), the file's name, content, language and per-file options,
+ * and the theme and line-number settings. It holds the parsed blocks and
+ * each block's rendered markdown or highlighted code.
+ * 
+ * Only what is specific to a block is cached. Cross-reference links and
+ * source links depend on other files and settings, so they are added to
+ * the cached HTML on every build. Entries are written after rendering,
+ * once the rendered HTML is known. An entry's name starts with a hash of
+ * the file's name, so a file's outdated entries are removed when its new
+ * one is written; `--clean-cache` removes them all.
+ */
+const CACHE_DIR = '.litsdoc-cache';
+
+interface BuildCache {
+  settings: string;
+  files: Map<string, { entryName: string; blocks: LiterateBlock[]; storedFragments: number }>;
+  rendered: WeakMap<LiterateBlock, string>;
+  hits: number;
+}
+
+interface CacheEntry {
+  blocks: LiterateBlock[];
+  rendered: (string | null)[];
+}
+
+async function createBuildCache(options: CommandLineOptions): Promise<BuildCache> {
+  return {
+    settings: JSON.stringify([await hashSource(), options.theme ?? 'default', options.lineNumbers ?? false]),
+    files: new Map(),
+    rendered: new WeakMap(),
+    hits: 0
+  };
+}
+
+async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+let sourceHash: Promise<string> | undefined;
+
+/**
+ * Hashes litsdoc's own source, read once per process. If it can't be read,
+ * the version number has to do.
+ */
+function hashSource(): Promise<string> {
+  sourceHash ??= fetch(import.meta.url)
+    .then(response => response.ok ? response.text() : Promise.reject(new Error(response.statusText)))
+    .then(hashText)
+    .catch(() => LITSDOC_VERSION);
+  return sourceHash;
+}
+
+/**
+ * Looks a file up in the cache, returning its blocks if it is unchanged.
+ * Either way the file's entry name is remembered for `saveBuildCache`.
+ */
+async function readCachedBlocks(cache: BuildCache, file: string, options: FileOptions): Promise<LiterateBlock[] | undefined> {
+  const content = await Deno.readTextFile(file);
+  const language = options.language ?? resolveLanguage(file)?.name;
+  const definition = language ? LANGUAGE_REGISTRY[language] : undefined;
+  const key = await hashText(JSON.stringify([
+    cache.settings,
+    file,
+    language,
+    definition && { commentSyntax: definition.commentSyntax, shikiLanguage: definition.shikiLanguage },
+    options,
+    content
+  ]));
+  const entryName = `${(await hashText(file)).slice(0, 16)}-${key}.json`;
+  
+  let entry: CacheEntry;
+  try {
+    entry = JSON.parse(await Deno.readTextFile(`${CACHE_DIR}/${entryName}`));
+  } catch {
+    // Missing or unreadable entries are simply rebuilt
+    cache.files.set(file, { entryName, blocks: [], storedFragments: -1 });
+    return undefined;
   }
   
-  return processedFiles;
+  entry.blocks.forEach((block, i) => {
+    const html = entry.rendered[i];
+    if (html !== null && html !== undefined) cache.rendered.set(block, html);
+  });
+  cache.files.set(file, { entryName, blocks: entry.blocks, storedFragments: entry.rendered.filter(html => html !== null).length });
+  cache.hits++;
+  return entry.blocks;
+}
+
+/**
+ * Returns a block's cached HTML, or renders it and keeps the result.
+ */
+async function renderWithCache(cache: BuildCache | undefined, block: LiterateBlock, render: () => Promise<string>): Promise<string> {
+  const cached = cache?.rendered.get(block);
+  if (cached !== undefined) return cached;
+  
+  const html = await render();
+  cache?.rendered.set(block, html);
+  return html;
+}
+
+/**
+ * Writes the entries of files that were parsed, or had blocks rendered
+ * for the first time, during this build, and removes the other entries of
+ * this build's files. Entries of files outside this build are kept.
+ */
+async function saveBuildCache(cache: BuildCache): Promise<void> {
+  try {
+    await Deno.mkdir(CACHE_DIR, { recursive: true });
+    await Promise.all([...cache.files.values()].map(async file => {
+      const rendered = file.blocks.map(block => cache.rendered.get(block) ?? null);
+      const storedFragments = rendered.filter(html => html !== null).length;
+      if (storedFragments <= file.storedFragments) return;
+      
+      const entry: CacheEntry = { blocks: file.blocks, rendered };
+      await Deno.writeTextFile(`${CACHE_DIR}/${file.entryName}`, JSON.stringify(entry));
+      file.storedFragments = storedFragments;
+    }));
+    
+    const current = new Set([...cache.files.values()].map(file => file.entryName));
+    const prefixes = new Set([...current].map(name => name.slice(0, name.indexOf('-') + 1)));
+    for await (const entry of Deno.readDir(CACHE_DIR)) {
+      const prefix = entry.name.slice(0, entry.name.indexOf('-') + 1);
+      if (prefix && prefixes.has(prefix) && !current.has(entry.name)) {
+        await Deno.remove(`${CACHE_DIR}/${entry.name}`);
+      }
+    }
+  } catch (error) {
+    // A cache that can't be written only costs time on the next build
+    console.warn(`Warning: Cannot write build cache: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Runs `work` on every item with at most `limit` running at once (so a
+ * large project doesn't open all its files together), and returns the
+ * results in the order of the items.
+ */
+async function mapConcurrently<T, R>(items: T[], work: (item: T) => Promise<R>, limit = 16): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await work(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
 /**
@@ -799,46 +3086,157 @@ async function processMultipleFiles(files: string[], codeUrl?: string, quiet = f
  * This creates the classic literate programming aesthetic where prose
  * and code are visually connected.
  */
-async function generateMultiFileHTML(processedFiles: ProcessedFile[], customTitle?: string, customDescription?: string): Promise<string> {
-  const title = customTitle || (processedFiles.length === 1 
-    ? (processedFiles[0].fileName.split('/').pop() || 'Literate Code')
-    : `Literate Code (${processedFiles.length} files)`);
+async function generateMultiFileHTML(processedFiles: ProcessedFile[], customTitle?: string, customDescription?: string, page: PageOptions = {}): Promise<string> {
+  const title = getDocumentTitle(processedFiles, customTitle);
+  const description = await getDocumentDescription(customDescription);
+  const { content, tocFiles } = await renderFileContent(processedFiles, page);
+  const searchIndex = JSON.stringify(buildSearchIndex(processedFiles, false));
+  const search = generateSearchBox(`<script>window.LITSDOC_SEARCH = ${escapeScriptContent(searchIndex)};</script>`);
   
-  const description = customDescription 
-    ? await processMarkdown(customDescription)
+  return fillTemplate(page, {
+    TITLE: title,
+    DESCRIPTION: description,
+    CONTENT: content,
+    TOC: page.toc !== false ? generateTableOfContents(tocFiles) : '',
+    SEARCH: search,
+    FILE_LIST: generateFileList(tocFiles)
+  });
+}
+
+/**
+ * Picks the document title: the custom title if given, otherwise the
+ * file name for single files or a file count for multiple files.
+ */
+function getDocumentTitle(processedFiles: ProcessedFile[], customTitle?: string): string {
+  return customTitle || (processedFiles.length === 1 
+    ? (processedFiles[0].fileName.split('/').pop() || 'Literate Code')
+    : `Literate Code (${processedFiles.length} files)`);
+}
+
+async function getDocumentDescription(customDescription?: string): Promise<string> {
+  return customDescription 
+    ? await processMarkdown(customDescription)
     : 'Literate Programming Documentation';
+}
+
+/**
+ * Fills the page template's placeholders in a single pass, so content
+ * that happens to contain `{{...}}` is never substituted again. Unknown
+ * placeholders are left untouched.
+ */
+function fillTemplate(page: PageOptions, fields: Record<string, string>): string {
+  const allFields: Record<string, string> = {
+    STYLES: `<style>${UTILITY_CSS}\n${PROSE_CSS}\n${page.theme?.css ?? ''}\n  </style>`,
+    EXTRA_CSS: page.extraCss ? `<style>\n${page.extraCss}\n  </style>` : '',
+    GENERATED_DATE: new Date().toISOString().slice(0, 10),
+    ...fields
+  };
   
+  return (page.template ?? HTML_TEMPLATE)
+    .replace(/{{([A-Z_]+)}}/g, (placeholder, name: string) => allFields[name] ?? placeholder);
+}
+
+/**
+ * Lists every documented file for the `{{FILE_LIST}}` placeholder.
+ */
+function generateFileList(tocFiles: TocFile[]): string {
+  const items = tocFiles.map(file =>
+    `<li><a href="${file.href ?? `#${file.anchor}`}" class="text-blue-600 hover:text-blue-800 hover:underline">${file.displayName}</a></li>`);
+  return `<ul class="file-list">${items.join('')}</ul>`;
+}
+
+/**
+ * Renders the file headers and paired comment/code rows for a list of
+ * files, producing both the stacked mobile layout and the desktop layout.
+ * Headings get slug anchors as they are rendered, and are collected per
+ * file for the table of contents.
+ */
+async function renderFileContent(processedFiles: ProcessedFile[], page: PageOptions = {}): Promise<{ content: string; tocFiles: TocFile[] }> {
   // Mobile: stack all blocks vertically
   let mobileContent = '';
   
   // Desktop: create pairs by grouping consecutive comment+code or individual blocks
   let desktopContent = '';
   
+  const slugify = createSlugger();
+  const tocFiles: TocFile[] = [];
+  
+  // Render every block's markdown or code concurrently, then lay them out in order
+  const renderedFiles = await Promise.all(processedFiles.map(file => Promise.all(file.blocks.map(block =>
+    block.type === 'comment'
+      ? renderWithCache(page.cache, block, () => processMarkdown(block.content, getFileLanguage(file), page.theme?.shiki))
+      : renderCodeBlock(block, file.baseUrl, page)
+  ))));
+  
   for (let fileIndex = 0; fileIndex < processedFiles.length; fileIndex++) {
     const processedFile = processedFiles[fileIndex];
-    const { fileName, blocks, baseUrl } = processedFile;
+    const { fileName, blocks, baseUrl, displayName, intro } = processedFile;
+    const rendered = renderedFiles[fileIndex];
+    const tocFile: TocFile = {
+      fileName,
+      displayName: getDisplayName(processedFile),
+      anchor: slugify(`file-${fileName.replace(/[\/\\.]/g, '-')}`),
+      headings: []
+    };
+    tocFiles.push(tocFile);
     
     // Add file header (only if we have multiple files or this is the first file with content)
     if (processedFiles.length > 1 || fileIndex === 0) {
-      const fileHeader = generateFileHeader(fileName, baseUrl);
-      mobileContent += fileHeader.replace('lg:flex', 'lg:hidden'); // Mobile version
+      const fileHeader = generateFileHeader(fileName, baseUrl, displayName, tocFile.anchor, page.gitInfo?.get(fileName));
+      mobileContent += toMobileAnchors(fileHeader.replace('lg:flex', 'lg:hidden')); // Mobile version
       desktopContent += fileHeader.replace('lg:hidden', 'hidden lg:flex'); // Desktop version
     }
 
+    // Intro prose from the project config stands on its own before the blocks
+    if (intro) {
+      const introContent = addHeadingAnchors(await processMarkdown(intro, getFileLanguage(processedFile), page.theme?.shiki), slugify, tocFile.headings);
+      
+      mobileContent += `
+          <div class="bg-white border-b border-gray-200 lg:hidden">
+            <div class="p-6">
+              <div class="prose">
+                ${toMobileAnchors(introContent)}
+              </div>
+            </div>
+          </div>`;
+      
+      desktopContent += `
+            <div class="hidden lg:flex w-full">
+              <div class="w-2/5 bg-white border-r border-gray-200">
+                <div class="p-6">
+                  <div class="prose">
+                    ${introContent}
+                  </div>
+                </div>
+              </div>
+              <div class="w-3/5 bg-gray-900">
+                <div class="p-6">
+                  <div class="h-full min-h-[4rem]"></div>
+                </div>
+              </div>
+            </div>`;
+    }
+
     // Process blocks for this file
     for (let i = 0; i < blocks.length; i++) {
       const currentBlock = blocks[i];
       const nextBlock = blocks[i + 1];
+      const anchor = getBlockAnchor(fileName, currentBlock);
       
       if (currentBlock.type === 'comment') {
-        const markdownContent = await processMarkdown(currentBlock.content);
+        const markdownContent = linkInlineCode(
+          addHeadingAnchors(rendered[i], slugify, tocFile.headings),
+          currentBlock,
+          getFileLanguage(processedFile),
+          page.crossReferences
+        );
         
         // Mobile version
         mobileContent += `
-          <div class="bg-white border-b border-gray-200 lg:hidden">
+          <div id="mobile-${anchor}" class="bg-white border-b border-gray-200 lg:hidden">
             <div class="p-6">
               <div class="prose">
-                ${markdownContent}
+                ${toMobileAnchors(markdownContent)}
               </div>
             </div>
           </div>`;
@@ -846,18 +3244,19 @@ async function generateMultiFileHTML(processedFiles: ProcessedFile[], customTitl
         // Desktop version: check if next block is code to pair them
         if (nextBlock && nextBlock.type === 'code') {
           // Pair comment with following code block
-          const highlightedCode = await highlightCode(nextBlock.content, nextBlock.language || 'text');
+          const highlightedCode = rendered[i + 1];
+          const codeAnchor = getBlockAnchor(fileName, nextBlock);
           
           desktopContent += `
             <div class="hidden lg:flex w-full">
-              <div class="w-2/5 bg-white border-r border-gray-200">
+              <div id="${anchor}" class="w-2/5 bg-white border-r border-gray-200">
                 <div class="p-6">
                   <div class="prose">
                     ${markdownContent}
                   </div>
                 </div>
               </div>
-              <div class="w-3/5 bg-gray-900">
+              <div id="${codeAnchor}" class="w-3/5 bg-gray-900">
                 <div class="p-6">
                   ${highlightedCode}
                 </div>
@@ -866,9 +3265,9 @@ async function generateMultiFileHTML(processedFiles: ProcessedFile[], customTitl
           
           // Add mobile version of the code block
           mobileContent += `
-            <div class="bg-gray-900 border-b border-gray-200 lg:hidden">
+            <div id="mobile-${codeAnchor}" class="bg-gray-900 border-b border-gray-200 lg:hidden">
               <div class="p-6">
-                ${highlightedCode}
+                ${toMobileAnchors(highlightedCode)}
               </div>
             </div>`;
           
@@ -878,7 +3277,7 @@ async function generateMultiFileHTML(processedFiles: ProcessedFile[], customTitl
           // Comment without following code - pair with empty space
           desktopContent += `
             <div class="hidden lg:flex w-full">
-              <div class="w-2/5 bg-white border-r border-gray-200">
+              <div id="${anchor}" class="w-2/5 bg-white border-r border-gray-200">
                 <div class="p-6">
                   <div class="prose">
                     ${markdownContent}
@@ -894,13 +3293,13 @@ async function generateMultiFileHTML(processedFiles: ProcessedFile[], customTitl
         }
       } else {
         // Code block (not paired with preceding comment)
-        const highlightedCode = await highlightCode(currentBlock.content, currentBlock.language || 'text');
+        const highlightedCode = rendered[i];
         
         // Mobile version
         mobileContent += `
-          <div class="bg-gray-900 border-b border-gray-200 lg:hidden">
+          <div id="mobile-${anchor}" class="bg-gray-900 border-b border-gray-200 lg:hidden">
             <div class="p-6">
-              ${highlightedCode}
+              ${toMobileAnchors(highlightedCode)}
             </div>
           </div>`;
         
@@ -912,7 +3311,7 @@ async function generateMultiFileHTML(processedFiles: ProcessedFile[], customTitl
                 <div class="h-full min-h-[4rem]"></div>
               </div>
             </div>
-            <div class="w-3/5 bg-gray-900">
+            <div id="${anchor}" class="w-3/5 bg-gray-900">
               <div class="p-6">
                 ${highlightedCode}
               </div>
@@ -928,59 +3327,1609 @@ async function generateMultiFileHTML(processedFiles: ProcessedFile[], customTitl
       ${desktopContent}
     </div>`;
   
-  return HTML_TEMPLATE
-    .replace(/{{TITLE}}/g, title)
-    .replace('{{DESCRIPTION}}', description)
-    .replace('{{CONTENT}}', content);
+  return { content, tocFiles };
 }
 
 /**
- * ## Main Entry Point
+ * Highlights a code block, with line numbers when enabled and a link to
+ * the block's lines in the hosted source when a code URL is set. Collapsed
+ * blocks are folded into a `<details>` element, and blocks with definitions
+ * list the blocks that refer to them.
+ */
+async function renderCodeBlock(block: LiterateBlock, baseUrl: string | undefined, page: PageOptions): Promise<string> {
+  let highlightedCode = await renderWithCache(page.cache, block, () =>
+    highlightCode(block.content, block.language || 'text', page.theme?.shiki, page.lineNumbers ? block.lineStart : undefined));
+  const lineUrl = getLineUrl(block.fileName, baseUrl, block, page.lineAnchor);
+  
+  highlightedCode = linkIdentifiers(highlightedCode, block, page.crossReferences);
+  
+  if (block.collapsed) {
+    highlightedCode = `<details class="collapsed-code"><summary>${describeLines(block)}</summary>${highlightedCode}</details>`;
+  }
+  
+  const references = page.crossReferences?.references.get(block) ?? [];
+  if (references.length > 0) {
+    const links = references.map(({ href, label }) => `<a class="xref" href="${href}">${label}</a>`);
+    highlightedCode += `<div class="xref-uses">Referenced from ${links.join(', ')}</div>`;
+  }
+  
+  return lineUrl
+    ? `<div class="view-source"><a href="${lineUrl}" target="_blank" rel="noopener noreferrer">View source</a></div>${highlightedCode}`
+    : highlightedCode;
+}
+
+function describeLines(block: LiterateBlock): string {
+  return block.lineStart === block.lineEnd
+    ? `line ${block.lineStart}`
+    : `lines ${block.lineStart}–${block.lineEnd}`;
+}
+
+/**
+ * ## Cross-References
  * 
- * Orchestrates the entire documentation generation process:
- * 1. Parse command-line arguments (with argfile support)
- * 2. Process all input files to extract blocks
- * 3. Generate HTML from processed blocks
- * 4. Output to file or stdout
- * 5. Report statistics (unless in quiet/stdout mode)
+ * Names defined at the top level of any input file link to the code block
+ * that defines them, wherever they appear as an identifier in highlighted
+ * code or as an inline code span in prose (`parseSourceFile` or
+ * `parseSourceFile()`). Names defined in more than one place are left
+ * alone, since there is no telling which one is meant. Each defining block
+ * also lists the blocks that refer to it.
  * 
- * The main function handles all error cases and provides
- * appropriate exit codes for CLI usage.
+ * Names only link within a language family, so a shell script's `greet`
+ * doesn't link to a C++ function of the same name. C and C++ share their
+ * definitions, as do JavaScript and TypeScript.
  */
-async function main() {
-  try {
-    const options = await parseCommandLineArgs();
-    
-    if (!options.stdout) {
-      console.log(`Processing ${options.files.length} file(s): ${options.files.join(', ')}`);
-      console.log(`Output: ${options.outputHtml}`);
-      if (options.codeUrl) {
-        console.log(`Code URL: ${options.codeUrl}`);
-      }
-      if (options.title) {
-        console.log(`Title: ${options.title}`);
+interface CrossReferences {
+  targets: Map<string, { href: string; block: LiterateBlock }>;
+  references: Map<LiterateBlock, { href: string; label: string }[]>;
+}
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/g;
+
+const CROSS_REFERENCE_FAMILIES: Record<string, string> = {
+  cpp: 'c',
+  typescript: 'javascript',
+  tsx: 'javascript'
+};
+
+function getCrossReferenceKey(language: string | undefined, name: string): string {
+  const family = CROSS_REFERENCE_FAMILIES[language ?? ''] ?? language ?? 'text';
+  return `${family}:${name}`;
+}
+
+function buildCrossReferences(processedFiles: ProcessedFile[], multiPage: boolean): CrossReferences {
+  const hrefFor = (file: ProcessedFile, block: LiterateBlock) =>
+    `${multiPage ? getPageFileName(file.fileName) : ''}#${getBlockAnchor(file.fileName, block)}`;
+  
+  const definitions = new Map<string, { href: string; block: LiterateBlock } | null>();
+  for (const file of processedFiles) {
+    for (const block of file.blocks) {
+      for (const name of block.defines ?? []) {
+        const key = getCrossReferenceKey(block.language, name);
+        const existing = definitions.get(key);
+        // Woven sections can repeat a file, but a block is still only one definition
+        if (existing === undefined) {
+          definitions.set(key, { href: hrefFor(file, block), block });
+        } else if (existing?.block !== block) {
+          definitions.set(key, null);
+        }
       }
-      if (options.description) {
-        console.log(`Description: ${options.description}`);
+    }
+  }
+  
+  const targets = new Map<string, { href: string; block: LiterateBlock }>();
+  for (const [name, target] of definitions) {
+    if (target) targets.set(name, target);
+  }
+  
+  const references = new Map<LiterateBlock, { href: string; label: string }[]>();
+  for (const file of processedFiles) {
+    const fileLanguage = getFileLanguage(file);
+    for (const block of file.blocks) {
+      const names = block.type === 'code'
+        ? block.content.match(IDENTIFIER_PATTERN) ?? []
+        : [...block.content.matchAll(/`([A-Za-z_$][\w$]*)(?:\(\))?`/g)].map(match => match[1]);
+      
+      for (const name of new Set(names)) {
+        const target = targets.get(getCrossReferenceKey(block.type === 'code' ? block.language : fileLanguage, name));
+        if (!target || target.block === block) continue;
+        
+        const uses = references.get(target.block) ?? [];
+        const href = hrefFor(file, block);
+        if (!uses.some(use => use.href === href)) {
+          uses.push({ href, label: `${getDisplayName(file)}:${block.lineStart}` });
+        }
+        references.set(target.block, uses);
       }
     }
+  }
+  
+  return { targets, references };
+}
+
+/**
+ * Links highlighted identifier tokens to their definitions, leaving the
+ * defining block's own mentions alone.
+ */
+function linkIdentifiers(html: string, block: LiterateBlock, crossReferences?: CrossReferences): string {
+  if (!crossReferences) {
+    return html;
+  }
+  
+  return html.replace(/(<span[^>]*>)(\s*)([A-Za-z_$][\w$]*)(<\/span>)/g, (token, open, space, name, close) => {
+    const target = crossReferences.targets.get(getCrossReferenceKey(block.language, name));
+    return target && target.block !== block
+      ? `${open}${space}<a class="xref" href="${target.href}">${name}</a>${close}`
+      : token;
+  });
+}
+
+/**
+ * Links inline code spans in rendered prose that name a definition in the
+ * language of the prose's file. Code blocks inside the prose are left as
+ * they are.
+ */
+function linkInlineCode(html: string, block: LiterateBlock, language: string | undefined, crossReferences?: CrossReferences): string {
+  if (!crossReferences) {
+    return html;
+  }
+  
+  return html
+    .split(/(<pre[\s\S]*?<\/pre>)/)
+    .map(part => part.startsWith('<pre') ? part : part.replace(/<code[^>]*>([A-Za-z_$][\w$]*)(\(\))?<\/code>/g, (span, name) => {
+      const target = crossReferences.targets.get(getCrossReferenceKey(language, name));
+      return target && target.block !== block ? `<a class="xref" href="${target.href}">${span}</a>` : span;
+    }))
+    .join('');
+}
+
+/**
+ * ## Table of Contents
+ * 
+ * Headings in comments are collected while rendering markdown. Each one
+ * gets a GitHub-style slug anchor derived from its text, so links stay
+ * stable as long as the heading does; repeated headings get a numeric
+ * suffix to keep every anchor on a page unique.
+ * 
+ * The sidebar groups headings by file, indented by level, and a small
+ * script highlights the section currently scrolled into view.
+ */
+interface TocHeading {
+  level: number;
+  text: string;
+  anchor: string;
+}
+
+interface TocFile {
+  fileName: string;
+  displayName: string;
+  anchor: string;
+  headings: TocHeading[];
+  href?: string;
+}
+
+function createSlugger(): (text: string) => string {
+  const seen = new Map<string, number>();
+  return (text: string) => {
+    const base = text
+      .toLowerCase()
+      .replace(/<[^>]+>/g, '')
+      .replace(/&[a-z0-9#]+;/g, '')
+      .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+      .trim()
+      .replace(/\s+/g, '-') || 'section';
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+}
+
+/**
+ * Adds an `id` to every heading in rendered markdown and records it.
+ */
+function addHeadingAnchors(html: string, slugify: (text: string) => string, headings: TocHeading[]): string {
+  return html.replace(/<h([1-6])>([\s\S]*?)<\/h\1>/g, (_match, level: string, inner: string) => {
+    const anchor = slugify(inner);
+    headings.push({ level: Number(level), text: inner.replace(/<[^>]+>/g, ''), anchor });
+    return `<h${level} id="${anchor}">${inner}</h${level}>`;
+  });
+}
+
+/**
+ * Content is rendered twice, once per layout. The sidebar only shows on
+ * desktop, so the mobile copy gets prefixed anchors to keep ids unique,
+ * and its cross-references point at the mobile copies of their targets.
+ */
+function toMobileAnchors(html: string): string {
+  return html
+    .replace(/<h([1-6]) id="/g, '<h$1 id="mobile-')
+    .replace(/<a class="xref" href="#/g, '<a class="xref" href="#mobile-');
+}
+
+const TOC_SCRIPT = `<script>
+  (() => {
+    const links = [...document.querySelectorAll('.toc a[href^="#"]')];
+    const targets = links.map(link => document.getElementById(link.getAttribute('href').slice(1)));
+    const update = () => {
+      let current = 0;
+      targets.forEach((target, i) => {
+        if (target && target.getBoundingClientRect().top < 120) current = i;
+      });
+      links.forEach((link, i) => link.classList.toggle('active', i === current));
+    };
+    addEventListener('scroll', update, { passive: true });
+    update();
+  })();
+</script>`;
+
+function generateTableOfContents(tocFiles: TocFile[]): string {
+  const minLevel = Math.min(...tocFiles.flatMap(file => file.headings.map(h => h.level)));
+  
+  const files = tocFiles.map(file => {
+    const headings = file.headings.map(heading => `
+          <li style="padding-left: ${(heading.level - minLevel) * 0.75}rem">
+            <a href="#${heading.anchor}" class="block py-0.5 text-gray-600 hover:text-gray-900">${heading.text}</a>
+          </li>`).join('');
+    return `
+      <li class="mb-3">
+        <a href="${file.href ?? `#${file.anchor}`}" class="block font-semibold text-gray-800 hover:text-gray-900">${file.displayName}</a>
+        ${headings ? `<ul class="mt-1">${headings}
+        </ul>` : ''}
+      </li>`;
+  }).join('');
+  
+  return `
+      <aside class="toc hidden lg:block w-64 shrink-0 bg-white border-r border-gray-200">
+        <nav class="sticky top-0 max-h-screen overflow-y-auto p-4 text-sm">
+          <ul>${files}
+          </ul>
+        </nav>
+      </aside>
+      ${TOC_SCRIPT}`;
+}
+
+/**
+ * ## Multi-Page Site Generation
+ * 
+ * For larger projects a single page gets slow and hard to navigate, so
+ * `--output-dir` writes one page per source file plus an `index.html`.
+ * The index lists the files in reading order along with the first heading
+ * found in each file's comments. Every page links to the previous and
+ * next file in that same order.
+ * 
+ * Returns a map from page file name to HTML, in reading order, plus the
+ * shared search index script.
+ */
+async function generateSiteHTML(processedFiles: ProcessedFile[], customTitle?: string, customDescription?: string, page: PageOptions = {}): Promise<Map<string, string>> {
+  const title = getDocumentTitle(processedFiles, customTitle);
+  const description = await getDocumentDescription(customDescription);
+  const pages = new Map<string, string>();
+  
+  // All pages share one search index file next to them
+  const search = generateSearchBox(`<script src="${SEARCH_INDEX_FILE}"></script>`);
+  
+  const pageLinks: TocFile[] = processedFiles.map(file => ({
+    fileName: file.fileName,
+    displayName: getDisplayName(file),
+    anchor: '',
+    headings: [],
+    href: getPageFileName(file.fileName)
+  }));
+  const fileList = generateFileList(pageLinks);
+  
+  let indexContent = '';
+  for (const processedFile of processedFiles) {
+    const heading = findFirstHeading(processedFile.blocks);
+    indexContent += `
+        <li class="py-4">
+          <a href="${getPageFileName(processedFile.fileName)}" class="text-lg font-semibold text-blue-600 hover:text-blue-800 hover:underline">${getDisplayName(processedFile)}</a>
+          <span class="ml-2 text-sm text-gray-500 font-mono">${processedFile.fileName}</span>
+          ${heading ? `<div class="text-gray-600 mt-1">${await marked.parseInline(heading)}</div>` : ''}
+        </li>`;
+  }
+  pages.set('index.html', fillTemplate(page, {
+    TITLE: title,
+    DESCRIPTION: description,
+    CONTENT: `
+    <div class="w-full bg-white p-6">
+      <ol class="divide-y divide-gray-200">${indexContent}
+      </ol>
+    </div>`,
+    TOC: '',
+    SEARCH: search,
+    FILE_LIST: fileList
+  }));
+  
+  const renderedPages = await Promise.all(processedFiles.map(file => renderFileContent([file], page)));
+  
+  for (let i = 0; i < processedFiles.length; i++) {
+    const navigation = generatePageNavigation(processedFiles[i - 1], processedFiles[i + 1]);
+    const { content, tocFiles: [currentFile] } = renderedPages[i];
     
-    const processedFiles = await processMultipleFiles(options.files, options.codeUrl, options.stdout);
-    const html = await generateMultiFileHTML(processedFiles, options.title, options.description);
+    // Other files in the sidebar link to their own pages
+    const tocFiles = pageLinks.map((link, j) => j === i ? currentFile : link);
     
-    if (options.stdout) {
-      console.log(html);
-    } else {
-      await Deno.writeTextFile(options.outputHtml, html);
+    pages.set(getPageFileName(processedFiles[i].fileName), fillTemplate(page, {
+      TITLE: `${getDisplayName(processedFiles[i])} - ${title}`,
+      DESCRIPTION: description,
+      CONTENT: `<div class="w-full">${navigation}${content}${navigation}</div>`,
+      TOC: page.toc !== false ? generateTableOfContents(tocFiles) : '',
+      SEARCH: search,
+      FILE_LIST: fileList
+    }));
+  }
+  
+  const searchIndex = JSON.stringify(buildSearchIndex(processedFiles, true));
+  pages.set(SEARCH_INDEX_FILE, `window.LITSDOC_SEARCH = ${searchIndex};\n`);
+  
+  return pages;
+}
+
+/**
+ * Flattens a source path into a page file name, e.g. `src/main.c` becomes
+ * `src_main.c.html`, so every page lives directly in the output directory.
+ * 
+ * Flattening can give two files the same name (`src/main.c` and
+ * `src_main.c`), so `assignPageFileNames` names a build's pages up front,
+ * in input order, and a later file whose name is taken gets a numeric
+ * suffix (`src_main.c-2.html`) instead of overwriting the earlier page.
+ */
+const pageFileNames = new Map<string, string>();
+
+function assignPageFileNames(fileNames: string[]): void {
+  pageFileNames.clear();
+  const taken = new Set<string>();
+  for (const fileName of new Set(fileNames)) {
+    const base = flattenPath(fileName);
+    let name = `${base}.html`;
+    for (let suffix = 2; taken.has(name); suffix++) {
+      name = `${base}-${suffix}.html`;
     }
+    taken.add(name);
+    pageFileNames.set(fileName, name);
+  }
+}
+
+function getPageFileName(fileName: string): string {
+  return pageFileNames.get(fileName) ?? `${flattenPath(fileName)}.html`;
+}
+
+function flattenPath(fileName: string): string {
+  return fileName.replace(/^\.\//, '').replace(/[\/\\]/g, '_');
+}
+
+/**
+ * The language of a file's code, which fenced code in its comments defaults to.
+ */
+function getFileLanguage(processedFile: ProcessedFile): string | undefined {
+  return processedFile.blocks.find(block => block.language)?.language ?? resolveLanguage(processedFile.fileName)?.name;
+}
+
+function getDisplayName(processedFile: ProcessedFile): string {
+  return processedFile.displayName || processedFile.fileName.split('/').pop() || processedFile.fileName;
+}
+
+/**
+ * Finds the text of the first markdown heading in a file's comments.
+ */
+function findFirstHeading(blocks: LiterateBlock[]): string | undefined {
+  for (const block of blocks) {
+    if (block.type !== 'comment') continue;
+    const match = block.content.match(/^#{1,6}\s+(.+?)\s*#*\s*$/m);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Creates the previous / index / next navigation bar shown at the top and
+ * bottom of each page of a multi-page site.
+ */
+function generatePageNavigation(previous?: ProcessedFile, next?: ProcessedFile): string {
+  const link = (file: ProcessedFile, label: string) =>
+    `<a href="${getPageFileName(file.fileName)}" class="text-blue-600 hover:text-blue-800 hover:underline">${label}</a>`;
+  
+  return `
+    <nav class="flex justify-between items-center w-full px-6 py-3 bg-white border-b border-gray-200 text-sm">
+      <div class="w-1/3">${previous ? link(previous, `&larr; ${getDisplayName(previous)}`) : ''}</div>
+      <div class="w-1/3 text-center"><a href="index.html" class="text-blue-600 hover:text-blue-800 hover:underline">Index</a></div>
+      <div class="w-1/3 text-right">${next ? link(next, `${getDisplayName(next)} &rarr;`) : ''}</div>
+    </nav>`;
+}
+
+/**
+ * ## Search
+ * 
+ * The search index is built at generation time from the `LiterateBlock`s:
+ * comment blocks contribute their prose, code blocks contribute the
+ * identifiers they contain. Each entry records where to jump (the page in
+ * multi-page output, and the block anchor) and a label made from the
+ * nearest preceding heading. Searching happens entirely in the browser,
+ * so it works offline.
+ * 
+ * Entries are stored as compact tuples: `[page, anchor, label, kind, text]`.
+ */
+const SEARCH_INDEX_FILE = 'search-index.js';
+
+type SearchEntry = [page: string, anchor: string, label: string, kind: 'comment' | 'code', text: string];
+
+/**
+ * Block anchors are derived from the file name and starting line so that
+ * the search index can refer to blocks without rendering them first.
+ */
+function getBlockAnchor(fileName: string, block: LiterateBlock): string {
+  return `${getPageFileName(fileName).replace(/\.html$/, '').replace(/[^A-Za-z0-9_-]/g, '-')}-L${block.lineStart}`;
+}
+
+function buildSearchIndex(processedFiles: ProcessedFile[], multiPage: boolean): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+  
+  for (const processedFile of processedFiles) {
+    const page = multiPage ? getPageFileName(processedFile.fileName) : '';
+    let label = getDisplayName(processedFile);
     
-    if (!options.stdout) {
-      const totalBlocks = processedFiles.reduce((sum, file) => sum + file.blocks.length, 0);
-      const totalComments = processedFiles.reduce((sum, file) => sum + file.blocks.filter(b => b.type === 'comment').length, 0);
-      const totalCodeBlocks = processedFiles.reduce((sum, file) => sum + file.blocks.filter(b => b.type === 'code').length, 0);
+    for (const block of processedFile.blocks) {
+      const anchor = getBlockAnchor(processedFile.fileName, block);
       
-      console.log(`Generated HTML: ${options.outputHtml}`);
-      console.log(`Processed ${options.files.length} files with ${totalBlocks} blocks (${totalComments} comments, ${totalCodeBlocks} code)`);
+      if (block.type === 'comment') {
+        const headings = [...block.content.matchAll(/^#{1,6}\s+(.+?)\s*#*\s*$/gm)];
+        if (headings.length > 0) {
+          label = `${getDisplayName(processedFile)}: ${headings[0][1].replace(/[`*_]/g, '')}`;
+        }
+        const text = block.content
+          .replace(/```[^\n]*/g, ' ')
+          .replace(/[#*_`>\[\]()]/g, ' ')
+          .replace(/\s+/g, ' ')
+          .trim();
+        entries.push([page, anchor, label, 'comment', text]);
+      } else {
+        const identifiers = new Set(block.content.match(/[A-Za-z_$][A-Za-z0-9_$]{2,}/g) ?? []);
+        entries.push([page, anchor, `${label} (line ${block.lineStart})`, 'code', [...identifiers].join(' ')]);
+      }
+    }
+  }
+  
+  return entries;
+}
+
+/**
+ * Keeps embedded JSON from closing the surrounding `<script>` element.
+ */
+function escapeScriptContent(json: string): string {
+  return json.replace(/</g, '\\u003c');
+}
+
+const SEARCH_SCRIPT = `<script>
+  (() => {
+    const input = document.getElementById('litsdoc-search');
+    const results = document.getElementById('litsdoc-search-results');
+    const escape = text => text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+    
+    const jump = (page, anchor) => {
+      if (page && !location.pathname.endsWith('/' + page)) {
+        location.href = page + '#' + anchor;
+        return;
+      }
+      const target = [document.getElementById(anchor), document.getElementById('mobile-' + anchor)]
+        .find(element => element && element.offsetParent !== null);
+      if (target) {
+        target.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        history.replaceState(null, '', '#' + target.id);
+      }
+    };
+    
+    const search = () => {
+      const terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+      if (terms.length === 0) {
+        results.innerHTML = '';
+        return;
+      }
+      const matches = (window.LITSDOC_SEARCH || [])
+        .filter(([, , label, , text]) => {
+          const haystack = (label + ' ' + text).toLowerCase();
+          return terms.every(term => haystack.includes(term));
+        })
+        .sort((a, b) => (a[3] === 'comment' ? 0 : 1) - (b[3] === 'comment' ? 0 : 1))
+        .slice(0, 20);
+      results.innerHTML = matches.length === 0
+        ? '<li class="px-3 py-2 text-gray-500">No matches</li>'
+        : matches.map(([page, anchor, label, kind, text], i) => {
+            const position = text.toLowerCase().indexOf(terms[0]);
+            const snippet = kind === 'comment' && position >= 0
+              ? text.slice(Math.max(0, position - 40), position + 80)
+              : kind === 'code' ? 'code' : text.slice(0, 120);
+            return '<li><a href="#" data-index="' + i + '" class="block px-3 py-2 hover:bg-gray-100">'
+              + '<div class="font-semibold text-gray-800">' + escape(label) + '</div>'
+              + '<div class="text-sm text-gray-500 truncate">' + escape(snippet) + '</div></a></li>';
+          }).join('');
+      results.querySelectorAll('a').forEach(link => link.addEventListener('click', event => {
+        event.preventDefault();
+        const [page, anchor] = matches[Number(link.dataset.index)];
+        results.innerHTML = '';
+        jump(page, anchor);
+      }));
+    };
+    
+    input.addEventListener('input', search);
+    input.addEventListener('keydown', event => {
+      if (event.key === 'Enter') results.querySelector('a')?.click();
+      if (event.key === 'Escape') results.innerHTML = '';
+    });
+  })();
+</script>`;
+
+/**
+ * Creates the search box shown in the page header. `indexScript` either
+ * embeds the index or loads it from the file next to the pages.
+ */
+function generateSearchBox(indexScript: string): string {
+  return `
+      <div class="relative mt-4 max-w-xl">
+        <input id="litsdoc-search" type="search" placeholder="Search prose and code..." autocomplete="off"
+          class="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:border-blue-500">
+        <ul id="litsdoc-search-results" class="search-results absolute z-10 w-full mt-1 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded shadow-lg"></ul>
+      </div>
+      ${indexScript}
+      ${SEARCH_SCRIPT}`;
+}
+
+/**
+ * ## JSON Intermediate Representation
+ * 
+ * `--emit-json` writes the parse results as JSON so other tools can
+ * inspect or rewrite them, and `--from-json` renders such a document
+ * instead of parsing source files. The document carries a version so
+ * readers can tell which shape they have; version 1 looks like this:
+ * 
+ * ```json
+ * {
+ *   "format": "litsdoc",
+ *   "version": 1,
+ *   "files": [{
+ *     "fileName": "src/main.c",
+ *     "displayName": "Main",
+ *     "baseUrl": "https://github.com/user/repo/tree/main/",
+ *     "intro": "Markdown shown before the file's blocks",
+ *     "blocks": [
+ *       { "type": "comment", "content": "# Main\n\nMarkdown prose", "lineStart": 1, "lineEnd": 3 },
+ *       { "type": "code", "content": "int main(void) {", "language": "c", "lineStart": 4, "lineEnd": 4 }
+ *     ]
+ *   }]
+ * }
+ * ```
+ * 
+ * `displayName`, `baseUrl`, `intro`, `language`, `collapsed` (true for
+ * code folded by `litsdoc:collapse`), `section` (`{ "name", "order" }`
+ * on the first block of an `@section`) and `defines` (the top-level names
+ * a code block defines) are optional. Comment
+ * `content` is the markdown left after stripping comment markers, code
+ * `content` is the source text, `language` is the code's language registry
+ * name and line numbers are 1-based and inclusive. Adding optional fields
+ * keeps the version; any other change to the shape increments it.
+ */
+const JSON_FORMAT_VERSION = 1;
+
+function generateJsonDocument(processedFiles: ProcessedFile[]): string {
+  return JSON.stringify({
+    format: 'litsdoc',
+    version: JSON_FORMAT_VERSION,
+    files: processedFiles.map(({ fileName, displayName, baseUrl, intro, blocks }) => ({
+      fileName,
+      displayName,
+      baseUrl,
+      intro,
+      blocks: blocks.map(({ type, content, language, lineStart, lineEnd, collapsed, section, defines }) =>
+        ({ type, content, language, lineStart, lineEnd, collapsed, section, defines }))
+    }))
+  }, null, 2) + '\n';
+}
+
+/**
+ * Reads a JSON document written by `--emit-json` (or by another tool) back
+ * into `ProcessedFile`s. A `codeUrl` given on the command line replaces
+ * the `baseUrl` stored in the document.
+ */
+async function readJsonDocument(path: string, codeUrl?: string): Promise<ProcessedFile[]> {
+  const fail: (message: string) => never = message => {
+    throw new Error(`Invalid litsdoc JSON '${path}': ${message}`);
+  };
+  const optionalString = (value: unknown, field: string): string | undefined => {
+    if (value !== undefined && typeof value !== 'string') fail(`${field} must be a string`);
+    return value;
+  };
+  const isInteger = (value: unknown): value is number => Number.isInteger(value);
+  const isSection = (value: unknown): value is { name: string; order?: string } =>
+    isRecord(value) && typeof value.name === 'string' && (value.order === undefined || typeof value.order === 'string');
+  
+  let document: unknown;
+  try {
+    document = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    fail((error as Error).message);
+  }
+  
+  if (!isRecord(document) || document.format !== 'litsdoc') {
+    fail('"format" must be "litsdoc"');
+  }
+  if (document.version !== JSON_FORMAT_VERSION) {
+    fail(`unsupported version ${JSON.stringify(document.version)} (this litsdoc reads version ${JSON_FORMAT_VERSION})`);
+  }
+  if (!Array.isArray(document.files)) {
+    fail('"files" must be an array');
+  }
+  
+  return document.files.map((file: unknown, i: number): ProcessedFile => {
+    if (!isRecord(file)) fail(`files[${i}] must be an object`);
+    const { fileName, blocks } = file;
+    if (typeof fileName !== 'string') fail(`files[${i}].fileName must be a string`);
+    const displayName = optionalString(file.displayName, `files[${i}].displayName`);
+    const baseUrl = optionalString(file.baseUrl, `files[${i}].baseUrl`);
+    const intro = optionalString(file.intro, `files[${i}].intro`);
+    if (!Array.isArray(blocks)) fail(`files[${i}].blocks must be an array`);
+    
+    return {
+      fileName,
+      blocks: blocks.map((block: unknown, j: number): LiterateBlock => {
+        const at = `files[${i}].blocks[${j}]`;
+        if (!isRecord(block)) fail(`${at} must be an object`);
+        const { type, content, lineStart, lineEnd, collapsed, section, defines } = block;
+        if (type !== 'comment' && type !== 'code') fail(`${at}.type must be "comment" or "code"`);
+        if (typeof content !== 'string') fail(`${at}.content must be a string`);
+        if (!isInteger(lineStart)) fail(`${at}.lineStart must be an integer`);
+        if (!isInteger(lineEnd)) fail(`${at}.lineEnd must be an integer`);
+        if (collapsed !== undefined && typeof collapsed !== 'boolean') fail(`${at}.collapsed must be a boolean`);
+        if (section !== undefined && !isSection(section)) fail(`${at}.section must have a string name and an optional string order`);
+        if (defines !== undefined && !isStringArray(defines)) fail(`${at}.defines must be an array of strings`);
+        return {
+          type,
+          content,
+          language: optionalString(block.language, `${at}.language`),
+          lineStart,
+          lineEnd,
+          fileName,
+          collapsed,
+          section,
+          defines
+        };
+      }),
+      baseUrl: codeUrl ?? baseUrl,
+      displayName,
+      intro
+    };
+  });
+}
+
+/**
+ * ## Markdown Export
+ * 
+ * Writes the processed files as one GitHub Flavored Markdown document, for
+ * wikis, READMEs or mdBook. Comments are already markdown and are copied as
+ * prose. Code becomes a fenced block tagged with its Shiki language and
+ * followed by a note of the lines it came from, and each file starts with
+ * a heading that links to the source when `--code-url` is set.
+ */
+function generateMarkdownDocument(processedFiles: ProcessedFile[], customTitle?: string, customDescription?: string, lineAnchor?: string): string {
+  const sections = [
+    `# ${getDocumentTitle(processedFiles, customTitle)}`,
+    customDescription ?? 'Literate Programming Documentation'
+  ];
+  
+  for (const processedFile of processedFiles) {
+    const { fileName, blocks, baseUrl, intro } = processedFile;
+    const fileLink = getFileUrl(fileName, baseUrl);
+    const displayName = getDisplayName(processedFile);
+    sections.push(`## ${fileLink ? `[${displayName}](${fileLink})` : displayName}`);
+    
+    if (intro) {
+      sections.push(intro.trim());
+    }
+    
+    for (const block of blocks) {
+      if (block.type === 'comment') {
+        sections.push(block.content.trim());
+        continue;
+      }
+      
+      const code = block.content.trimEnd();
+      if (!code) {
+        continue;
+      }
+      
+      // The fence must be longer than any run of backticks inside the code
+      const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+      const fence = '`'.repeat(Math.max(3, longestRun + 1));
+      const lines = describeLines(block);
+      const source = fileLink
+        ? `[${fileName}, ${lines}](${getLineUrl(fileName, baseUrl, block, lineAnchor)})`
+        : `${fileName}, ${lines}`;
+      
+      const fenced = `${fence}${getShikiLanguage(block.language ?? 'text')}\n${code}\n${fence}`;
+      sections.push(block.collapsed
+        ? `<details>\n<summary>${lines}</summary>\n\n${fenced}\n\n</details>\n<sub>${source}</sub>`
+        : `${fenced}\n<sub>${source}</sub>`);
+    }
+  }
+  
+  return sections.filter(section => section.length > 0).join('\n\n') + '\n';
+}
+
+/**
+ * ## Named Sections
+ * 
+ * A comment line `@section <name> [<order>]` starts a named section that
+ * runs until the next section in the same file. Given a weave order, the
+ * output presents sections in that narrative order instead of file order,
+ * as noweb does: either a list of section names, or `by-key` to sort the
+ * sections by their order keys (numerically when both keys are numbers).
+ * 
+ * Sections defined more than once, in one file or several, are joined in
+ * the order they appear. Anything the order leaves out (including blocks
+ * before a file's first section) is dropped with a warning.
+ */
+function weaveSections(processedFiles: ProcessedFile[], weaveOrder: string[] | 'by-key'): ProcessedFile[] {
+  const sections = new Map<string, { order?: string; parts: ProcessedFile[] }>();
+  
+  for (const file of processedFiles) {
+    let current: ProcessedFile | undefined;
+    let unsectioned = 0;
+    
+    for (const block of file.blocks) {
+      if (block.section) {
+        const { name, order } = block.section;
+        // Each part renders as its own file segment, headed by the section name
+        current = {
+          ...file,
+          displayName: `${getDisplayName(file)} § ${name}`,
+          intro: current ? undefined : file.intro,
+          blocks: []
+        };
+        const section = sections.get(name) ?? { order, parts: [] };
+        section.order ??= order;
+        section.parts.push(current);
+        sections.set(name, section);
+      }
+      
+      if (current) {
+        current.blocks.push(block);
+      } else {
+        unsectioned++;
+      }
+    }
+    
+    if (unsectioned > 0) {
+      console.warn(`Warning: ${file.fileName}: ${unsectioned} block(s) before the first @section are not in the weave order`);
+    }
+  }
+  
+  const compareKeys = (a: string, b: string) =>
+    isFinite(Number(a)) && isFinite(Number(b)) ? Number(a) - Number(b) : a.localeCompare(b);
+  const names = weaveOrder === 'by-key'
+    ? [...sections.keys()]
+      .filter(name => sections.get(name)!.order !== undefined)
+      .sort((a, b) => compareKeys(sections.get(a)!.order!, sections.get(b)!.order!))
+    : weaveOrder;
+  
+  for (const name of names) {
+    if (!sections.has(name)) {
+      console.warn(`Warning: section '${name}' in the weave order is not defined`);
+    }
+  }
+  for (const name of sections.keys()) {
+    if (!names.includes(name)) {
+      console.warn(`Warning: section '${name}' is defined but never used in the weave order`);
+    }
+  }
+  
+  return names.flatMap(name => sections.get(name)?.parts ?? []);
+}
+
+/**
+ * ## Output Generation
+ * 
+ * Renders the single-page document, the multi-page site, the markdown
+ * document or the JSON document, and returns the pages keyed by file name
+ * along with the page to open first.
+ */
+async function generateOutput(parsedFiles: ProcessedFile[], options: CommandLineOptions, cache?: BuildCache): Promise<{ pages: Map<string, string>; index: string }> {
+  // The JSON document keeps file order; sections are woven when rendering
+  const processedFiles = options.weaveOrder && options.format !== 'json'
+    ? weaveSections(parsedFiles, options.weaveOrder)
+    : parsedFiles;
+  const title = getDocumentTitle(parsedFiles, options.title);
+  
+  if (options.format === 'markdown' || options.format === 'json') {
+    const name = options.outputHtml!.split('/').pop()!;
+    const document = options.format === 'json'
+      ? generateJsonDocument(processedFiles)
+      : generateMarkdownDocument(processedFiles, title, options.description, options.lineAnchor);
+    return { pages: new Map([[name, document]]), index: name };
+  }
+  
+  assignPageFileNames(processedFiles.map(file => file.fileName));
+  const theme = await resolveTheme(options.theme);
+  // Blocks rendered in an earlier build don't need the highlighter at all
+  const uncached = processedFiles.flatMap(file => file.blocks).filter(block => !cache?.rendered.has(block));
+  if (uncached.length > 0) {
+    const languages = uncached.map(block => getShikiLanguage(block.language || 'text'));
+    await timed('render: load highlighter', () => loadHighlighter(theme.shiki, languages));
+  }
+  
+  const page: PageOptions = {
+    theme,
+    cache,
+    toc: options.toc,
+    crossReferences: options.xref !== false ? buildCrossReferences(processedFiles, !!options.outputDir) : undefined,
+    lineNumbers: options.lineNumbers,
+    lineAnchor: options.lineAnchor,
+    template: options.template ? await Deno.readTextFile(options.template) : undefined,
+    extraCss: options.extraCss ? await Deno.readTextFile(options.extraCss) : undefined,
+    gitInfo: options.gitInfo ? await readGitFileInfo(parsedFiles) : undefined
+  };
+  
+  if (options.outputDir) {
+    const pages = await generateSiteHTML(processedFiles, title, options.description, page);
+    return { pages, index: 'index.html' };
+  }
+  
+  const html = await generateMultiFileHTML(processedFiles, title, options.description, page);
+  const name = options.outputHtml!.split('/').pop()!;
+  return { pages: new Map([[name, html]]), index: name };
+}
+
+async function writeOutput(options: CommandLineOptions, output: { pages: Map<string, string>; index: string }): Promise<void> {
+  if (options.outputDir) {
+    await Deno.mkdir(options.outputDir, { recursive: true });
+    for (const [name, html] of output.pages) {
+      await Deno.writeTextFile(`${options.outputDir}/${name}`, html);
+    }
+  } else {
+    await Deno.writeTextFile(options.outputHtml!, output.pages.get(output.index)!);
+  }
+}
+
+/**
+ * ## Documentation Diff
+ * 
+ * `litsdoc diff <rev-a> <rev-b> [files...]` compares the documentation of
+ * two git revisions. Each file is read from both revisions with `git show`
+ * and parsed into blocks as usual, and the blocks are grouped into units:
+ * a comment with the code that follows it, or a comment or code on its own.
+ * 
+ * Units are aligned by their longest common subsequence. Between the units
+ * that match exactly, a unit that kept its comment or its code is paired
+ * with its old version, then the rest are paired in order, so an edit
+ * shows up as one modified unit rather than a removal and an addition.
+ * Code that changed under an unchanged comment is flagged, since the
+ * comment may no longer describe it.
+ * 
+ * The report shows the old and new versions side by side, with changed
+ * lines of code highlighted and runs of unchanged units collapsed.
+ */
+interface DiffUnit {
+  comment?: LiterateBlock;
+  code?: LiterateBlock;
+}
+
+interface DiffRow {
+  status: 'unchanged' | 'modified' | 'added' | 'removed';
+  before?: DiffUnit;
+  after?: DiffUnit;
+  staleComment: boolean;
+}
+
+// Longer sequences (about 2000 lines on each side) are treated as entirely changed
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Added to the report's extra CSS, so pages without a diff don't carry it
+const DIFF_CSS = `
+    .diff-file {
+      margin: 1.5rem;
+      border: 1px solid var(--color-border);
+      background-color: var(--color-surface);
+    }
+    .diff-file-header {
+      padding: 0.75rem 1rem;
+      font-weight: 600;
+      color: var(--color-heading);
+    }
+    .diff-summary {
+      margin-left: 0.75rem;
+      font-size: 0.875rem;
+      font-weight: 400;
+      color: var(--color-text-muted);
+    }
+    .diff-row {
+      display: flex;
+      flex-wrap: wrap;
+      border-top: 1px solid var(--color-border);
+    }
+    .diff-side {
+      width: 50%;
+      min-width: 0;
+    }
+    .diff-side + .diff-side {
+      border-left: 1px solid var(--color-border);
+    }
+    .diff-side:empty {
+      background-color: var(--color-page);
+    }
+    .diff-revisions .diff-side {
+      padding: 0.5rem 1rem;
+      font-size: 0.875rem;
+      color: var(--color-text-secondary);
+    }
+    .diff-cell {
+      border-left: 4px solid transparent;
+    }
+    .diff-cell.diff-changed {
+      border-left-color: rgb(234 179 8);
+    }
+    .diff-added .diff-side:last-child .diff-cell {
+      border-left-color: rgb(34 197 94);
+      background-color: rgb(34 197 94 / 0.08);
+    }
+    .diff-removed .diff-side:first-child .diff-cell {
+      border-left-color: rgb(239 68 68);
+      background-color: rgb(239 68 68 / 0.08);
+    }
+    .diff-line-added, .diff-line-removed {
+      display: inline-block;
+      min-width: 100%;
+    }
+    .diff-line-added {
+      background-color: rgb(34 197 94 / 0.2);
+    }
+    .diff-line-removed {
+      background-color: rgb(239 68 68 / 0.2);
+    }
+    .diff-note {
+      width: 100%;
+      padding: 0.5rem 1rem;
+      font-size: 0.875rem;
+      background-color: rgb(234 179 8 / 0.15);
+      color: var(--color-text);
+    }
+    .diff-collapsed > summary {
+      padding: 0.5rem 1rem;
+      border-top: 1px solid var(--color-border);
+      cursor: pointer;
+      font-size: 0.875rem;
+      color: var(--color-text-muted);
+    }`;
+
+async function generateDiffReport(options: CommandLineOptions, diff: { from: string; to: string }): Promise<{ html: string; rows: DiffRow[] }> {
+  for (const revision of [diff.from, diff.to]) {
+    if (!await runGit(['rev-parse', '--verify', '--quiet', `${revision}^{commit}`])) {
+      throw new Error(`Unknown git revision '${revision}'`);
+    }
+  }
+  
+  const theme = await resolveTheme(options.theme);
+  const page: PageOptions = {
+    theme,
+    template: options.template ? await Deno.readTextFile(options.template) : undefined,
+    extraCss: DIFF_CSS + (options.extraCss ? `\n${await Deno.readTextFile(options.extraCss)}` : '')
+  };
+  
+  const fileDiffs = await mapConcurrently(options.files, async fileName => {
+    const [before, after] = await Promise.all([
+      readRevisionBlocks(diff.from, fileName, options.fileOptions[fileName]),
+      readRevisionBlocks(diff.to, fileName, options.fileOptions[fileName])
+    ]);
+    if (!before && !after) {
+      throw new Error(`${fileName} exists in neither ${diff.from} nor ${diff.to}`);
+    }
+    
+    const processedFile: ProcessedFile = { fileName, blocks: after ?? before!, displayName: options.fileOptions[fileName]?.displayName };
+    const rows = diffUnits(groupDiffUnits(before ?? []), groupDiffUnits(after ?? []));
+    const renderedRows = await Promise.all(rows.map(row => renderDiffRow(row, getFileLanguage(processedFile), page)));
+    return { processedFile, rows, renderedRows, fileStatus: !before ? 'new file' : !after ? 'deleted' : undefined };
+  });
+  
+  const slugify = createSlugger();
+  const tocFiles: TocFile[] = [];
+  let content = '';
+  
+  for (const { processedFile, rows, renderedRows, fileStatus } of fileDiffs) {
+    const tocFile: TocFile = {
+      fileName: processedFile.fileName,
+      displayName: getDisplayName(processedFile),
+      anchor: slugify(`file-${processedFile.fileName.replace(/[\/\\.]/g, '-')}`),
+      headings: []
+    };
+    tocFiles.push(tocFile);
+    
+    // Runs of unchanged units are folded away so the changes stand out
+    let body = '';
+    for (let i = 0; i < rows.length; i++) {
+      let end = i;
+      while (end < rows.length && rows[end].status === 'unchanged') end++;
+      if (end > i) {
+        body += `
+        <details class="diff-collapsed">
+          <summary>${end - i} unchanged block${end - i === 1 ? '' : 's'}</summary>
+          ${renderedRows.slice(i, end).join('')}
+        </details>`;
+        i = end - 1;
+      } else {
+        body += renderedRows[i];
+      }
+    }
+    
+    const summary = [fileStatus, summarizeDiffRows(rows) || 'no changes'].filter(Boolean).join(', ');
+    content += `
+      <section id="${tocFile.anchor}" class="diff-file">
+        <h2 class="diff-file-header">${escapeHtml(tocFile.displayName)}<span class="diff-summary">${summary}</span></h2>
+        <div class="diff-row diff-revisions">
+          <div class="diff-side font-mono">${escapeHtml(diff.from)}</div>
+          <div class="diff-side font-mono">${escapeHtml(diff.to)}</div>
+        </div>
+        ${body}
+      </section>`;
+  }
+  
+  const rows = fileDiffs.flatMap(file => file.rows);
+  const html = fillTemplate(page, {
+    TITLE: options.title ?? `Documentation changes ${escapeHtml(diff.from)}..${escapeHtml(diff.to)}`,
+    DESCRIPTION: await processMarkdown(options.description ?? `${summarizeDiffRows(rows) || 'No changes'} in ${fileDiffs.length} file${fileDiffs.length === 1 ? '' : 's'}`),
+    CONTENT: `<div class="w-full">${content}</div>`,
+    TOC: '',
+    SEARCH: '',
+    FILE_LIST: generateFileList(tocFiles)
+  });
+  return { html, rows };
+}
+
+/**
+ * Parses a file as it was at `revision`, or returns `undefined` if it
+ * didn't exist there. File names are relative to the working directory.
+ */
+async function readRevisionBlocks(revision: string, fileName: string, options: FileOptions = {}): Promise<LiterateBlock[] | undefined> {
+  const sourceCode = await runGit(['show', `${revision}:./${normalizePath(fileName)}`], false);
+  return sourceCode === undefined ? undefined : parseSourceText(sourceCode, fileName, options);
+}
+
+function groupDiffUnits(blocks: LiterateBlock[]): DiffUnit[] {
+  const units: DiffUnit[] = [];
+  for (const block of blocks) {
+    const previous = units[units.length - 1];
+    if (block.type === 'code' && previous?.comment && !previous.code) {
+      previous.code = block;
+    } else {
+      units.push(block.type === 'comment' ? { comment: block } : { code: block });
+    }
+  }
+  return units;
+}
+
+function getUnitText(unit: DiffUnit): string {
+  return `${unit.comment?.content ?? ''}\0${unit.code?.content ?? ''}`;
+}
+
+function diffUnits(before: DiffUnit[], after: DiffUnit[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  const matches = matchSequences(before.map(getUnitText), after.map(getUnitText));
+  let i = 0;
+  let j = 0;
+  
+  for (const [matchBefore, matchAfter] of [...matches, [before.length, after.length]]) {
+    rows.push(...pairUnits(before.slice(i, matchBefore), after.slice(j, matchAfter)));
+    if (matchBefore < before.length) {
+      rows.push({ status: 'unchanged', before: before[matchBefore], after: after[matchAfter], staleComment: false });
+    }
+    i = matchBefore + 1;
+    j = matchAfter + 1;
+  }
+  return rows;
+}
+
+/**
+ * Pairs the units between two exact matches: first a unit with the same
+ * comment or code as an old one, then the rest in order, as long as both
+ * have a comment or both have code. Unpaired units were added or removed.
+ */
+function pairUnits(before: DiffUnit[], after: DiffUnit[]): DiffRow[] {
+  const partners: (number | undefined)[] = after.map(() => undefined);
+  const paired = new Set<number>();
+  const pair = (accept: (old: DiffUnit, unit: DiffUnit) => boolean) => after.forEach((unit, j) => {
+    const i = partners[j] === undefined ? before.findIndex((old, i) => !paired.has(i) && accept(old, unit)) : -1;
+    if (i !== -1) {
+      partners[j] = i;
+      paired.add(i);
+    }
+  });
+  pair((old, unit) => (!!unit.comment && sameContent(old.comment, unit.comment)) || (!!unit.code && sameContent(old.code, unit.code)));
+  pair((old, unit) => (!!old.comment && !!unit.comment) || (!!old.code && !!unit.code));
+  
+  const rows: DiffRow[] = [];
+  let next = 0;
+  const addRemoved = (until: number) => {
+    for (; next < until; next++) {
+      if (!paired.has(next)) {
+        rows.push({ status: 'removed', before: before[next], staleComment: false });
+      }
+    }
+  };
+  
+  after.forEach((unit, j) => {
+    const i = partners[j];
+    if (i === undefined) {
+      rows.push({ status: 'added', after: unit, staleComment: false });
+      return;
+    }
+    addRemoved(i);
+    const old = before[i];
+    const status = getUnitText(old) === getUnitText(unit) ? 'unchanged' : 'modified';
+    rows.push({
+      status,
+      before: old,
+      after: unit,
+      staleComment: status === 'modified' && !!unit.comment && sameContent(old.comment, unit.comment) && !sameContent(old.code, unit.code)
+    });
+  });
+  addRemoved(before.length);
+  return rows;
+}
+
+function sameContent(a?: LiterateBlock, b?: LiterateBlock): boolean {
+  return a?.content === b?.content;
+}
+
+/**
+ * Finds a longest common subsequence of two lists of strings, as pairs of
+ * matching indexes in order.
+ */
+function matchSequences(before: string[], after: string[]): [number, number][] {
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    return [];
+  }
+  
+  // lengths[i][j] is the length of the longest common subsequence of before[i..] and after[j..]
+  const width = after.length + 1;
+  const lengths = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = before[i] === after[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+  
+  const matches: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      matches.push([i++, j++]);
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function summarizeDiffRows(rows: DiffRow[]): string {
+  const count = (status: DiffRow['status']) => rows.filter(row => row.status === status).length;
+  const stale = rows.filter(row => row.staleComment).length;
+  return [
+    count('modified') && `${count('modified')} modified`,
+    count('added') && `${count('added')} added`,
+    count('removed') && `${count('removed')} removed`,
+    stale && `${stale} with a possibly stale comment`
+  ].filter(Boolean).join(', ');
+}
+
+async function renderDiffRow(row: DiffRow, language: string | undefined, page: PageOptions): Promise<string> {
+  const [before, after] = await Promise.all([
+    renderDiffSide(row.before, row.after, 'diff-line-removed', language, page),
+    renderDiffSide(row.after, row.before, 'diff-line-added', language, page)
+  ]);
+  const note = row.staleComment
+    ? '<div class="diff-note">The code changed but its comment did not: check that the comment still describes it</div>'
+    : '';
+  
+  return `
+        <div class="diff-row diff-${row.status}">${note}
+          <div class="diff-side">${before}</div>
+          <div class="diff-side">${after}</div>
+        </div>`;
+}
+
+/**
+ * Renders one version of a unit. When the other version is given, prose
+ * that differs from it and lines of code that aren't in it are marked.
+ */
+async function renderDiffSide(unit: DiffUnit | undefined, other: DiffUnit | undefined, lineClass: string, language: string | undefined, page: PageOptions): Promise<string> {
+  let html = '';
+  
+  if (unit?.comment) {
+    const changed = other && !sameContent(unit.comment, other.comment);
+    html += `<div class="diff-cell prose p-4${changed ? ' diff-changed' : ''}">${await processMarkdown(unit.comment.content, language, page.theme?.shiki)}</div>`;
+  }
+  
+  if (unit?.code) {
+    const lines = unit.code.content.split('\n');
+    const matched = new Set(matchSequences(lines, other?.code?.content.split('\n') ?? []).map(([i]) => i + 1));
+    const changedLines = new Set(other ? lines.map((_, i) => i + 1).filter(line => !matched.has(line)) : []);
+    const markLines: ShikiTransformer = {
+      line(node, line) {
+        if (changedLines.has(line)) {
+          this.addClassToHast(node, lineClass);
+        }
+      }
+    };
+    const highlighted = await highlightCode(unit.code.content, unit.code.language || language || 'text', page.theme?.shiki, unit.code.lineStart, [...SHIKI_TRANSFORMERS, markLines]);
+    html += `<div class="diff-cell bg-gray-900 p-4${changedLines.size > 0 ? ' diff-changed' : ''}">${highlighted}</div>`;
+  }
+  
+  return html;
+}
+
+/**
+ * ## Preview Server
+ * 
+ * Serves the most recently generated pages on localhost, with `/` showing
+ * the first page. A small script is injected before `</body>` that listens
+ * on a server-sent events stream and reloads the page whenever `update`
+ * publishes a new build.
+ */
+const RELOAD_PATH = '/__litsdoc/reload';
+const RELOAD_SCRIPT = `<script>new EventSource('${RELOAD_PATH}').onmessage = () => location.reload();</script>`;
+
+function startPreviewServer(port: number, initialOutput: { pages: Map<string, string>; index: string }): { update(output: { pages: Map<string, string>; index: string }): void } {
+  let currentOutput = initialOutput;
+  const clients = new Set<ReadableStreamDefaultController<Uint8Array>>();
+  const encoder = new TextEncoder();
+  
+  Deno.serve({
+    hostname: 'localhost',
+    port,
+    onListen: ({ port }) => console.log(`Serving on http://localhost:${port}/`)
+  }, (request) => {
+    const { pathname } = new URL(request.url);
+    
+    if (pathname === RELOAD_PATH) {
+      let client: ReadableStreamDefaultController<Uint8Array>;
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          client = controller;
+          clients.add(client);
+        },
+        cancel() {
+          clients.delete(client);
+        }
+      });
+      return new Response(body, {
+        headers: { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' }
+      });
+    }
+    
+    const page = pathname === '/' ? currentOutput.index : decodeURIComponent(pathname.slice(1));
+    const body = currentOutput.pages.get(page);
+    if (body !== undefined && page.endsWith('.js')) {
+      return new Response(body, {
+        headers: { 'content-type': 'text/javascript; charset=utf-8' }
+      });
+    }
+    if (body !== undefined) {
+      return new Response(body.replace('</body>', `${RELOAD_SCRIPT}\n</body>`), {
+        headers: { 'content-type': 'text/html; charset=utf-8' }
+      });
+    }
+    
+    return new Response('Not found', { status: 404 });
+  });
+  
+  return {
+    update(output: { pages: Map<string, string>; index: string }) {
+      currentOutput = output;
+      for (const client of clients) {
+        try {
+          client.enqueue(encoder.encode('data: reload\n\n'));
+        } catch {
+          clients.delete(client);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * ## Watch Mode
+ * 
+ * Watches the directories containing the input files, intro files, config,
+ * argfile, template, extra CSS and `--from-json` document, and regenerates
+ * the output when any of them change. Events are debounced so that an
+ * editor's burst of writes triggers one rebuild.
+ * 
+ * Only the files that changed are parsed again; everything else reuses the
+ * `ProcessedFile` from the previous build. A change to any of the other
+ * files reloads all options and rebuilds every file. Directory and glob
+ * inputs are watched recursively, and when a file below them is created,
+ * removed or renamed, or a `.gitignore` changes, they are expanded again
+ * so new files join the build and deleted ones leave it.
+ */
+async function watchForChanges(initialOptions: CommandLineOptions, initialFiles: ProcessedFile[], initialOutput: { pages: Map<string, string>; index: string }, initialCache?: BuildCache): Promise<never> {
+  let options = initialOptions;
+  let cache = initialCache;
+  const processed = new Map(initialFiles.map(file => [file.fileName, file]));
+  const server = options.serve ? startPreviewServer(options.port ?? 8000, initialOutput) : undefined;
+  
+  while (true) {
+    // Map every watched path to the input file that should be re-parsed (or null for config files)
+    const watched = new Map<string, string | null>();
+    for (const file of options.files) {
+      watched.set(toAbsolutePath(file), file);
+      const intro = options.fileOptions[file]?.intro;
+      if (intro) watched.set(toAbsolutePath(intro), file);
+    }
+    for (const configFile of [options.config, options.argfile, options.orderFile, options.template, options.extraCss, options.fromJson]) {
+      if (configFile) watched.set(toAbsolutePath(configFile), null);
+    }
+    
+    const directories = [...new Set([...watched.keys()].map(path => path.slice(0, path.lastIndexOf('/')) || '/'))];
+    const roots = await getExpandedRoots(options.inputs);
+    const watchers = [Deno.watchFs(directories, { recursive: false })];
+    if (roots.length > 0) {
+      watchers.push(Deno.watchFs(roots, { recursive: true }));
+    }
+    console.log(`Watching ${watched.size} file(s)${roots.length > 0 ? ` and ${roots.length} director${roots.length === 1 ? 'y' : 'ies'}` : ''} for changes...`);
+    
+    const isBelowRoot = (path: string) => roots.some(root => path.startsWith(root === '/' ? root : `${root}/`));
+    const changed = await nextChanges(watchers, (path, kind) => watched.has(path) ||
+      (isBelowRoot(path) && (kind === 'create' || kind === 'remove' || kind === 'rename' || path.endsWith('/.gitignore'))));
+    watchers.forEach(watcher => watcher.close());
+    
+    const reloadConfig = [...changed].some(path => watched.get(path) === null);
+    const reexpand = [...changed].some(isBelowRoot);
+    resetTimings();
+    try {
+      if (reloadConfig) {
+        console.log('Configuration changed, reloading options');
+        options = await parseCommandLineArgs();
+        cache = options.cache && !options.fromJson ? await createBuildCache(options) : undefined;
+        processed.clear();
+      } else {
+        for (const path of changed) {
+          const file = watched.get(path);
+          if (file) processed.delete(file);
+        }
+        if (reexpand) {
+          const { files } = await expandInputs(options.inputs, options.order);
+          const added = files.filter(file => !options.files.includes(file)).length;
+          const removed = options.files.filter(file => !files.includes(file)).length;
+          if (added > 0 || removed > 0) {
+            console.log(`Input files changed: ${added} added, ${removed} removed`);
+          }
+          options = { ...options, files };
+        }
+      }
+      
+      const missing = options.files.filter(file => !processed.has(file));
+      const reparsed = await timed('parse', () => processMultipleFiles(missing, options.codeUrl, false, options.fileOptions, cache));
+      for (const file of reparsed) {
+        processed.set(file.fileName, file);
+      }
+      
+      const processedFiles = options.fromJson
+        ? await loadProcessedFiles(options)
+        : options.files.map(file => processed.get(file)!);
+      const output = await timed('render', () => generateOutput(processedFiles, options, cache));
+      await timed('write', () => writeOutput(options, output));
+      if (cache) {
+        await timed('write cache', () => saveBuildCache(cache!));
+      }
+      console.log(`Regenerated: ${options.outputDir ?? options.outputHtml}`);
+      if (options.timings) {
+        console.log(formatTimings());
+      }
+      server?.update(output);
+    } catch (error) {
+      // Keep watching so the next save can fix the problem
+      console.error('Error:', (error as Error).message);
+    }
+  }
+}
+
+/**
+ * The directories that directory and glob inputs are expanded from, which
+ * watch mode watches recursively. Directories that don't exist are left out.
+ */
+async function getExpandedRoots(inputs: string[]): Promise<string[]> {
+  const roots: string[] = [];
+  for (const input of inputs) {
+    const root = GLOB_CHARACTERS.test(input) ? getGlobBase(normalizePath(input)) : input;
+    if ((await Deno.stat(root).catch(() => undefined))?.isDirectory) {
+      roots.push(toAbsolutePath(root));
+    }
+  }
+  return [...new Set(roots)];
+}
+
+/**
+ * Waits for file system events on relevant paths from any of the watchers,
+ * then keeps collecting them until things have been quiet for a moment.
+ */
+async function nextChanges(watchers: Deno.FsWatcher[], isRelevant: (path: string, kind: Deno.FsEvent['kind']) => boolean): Promise<Set<string>> {
+  const changed = new Set<string>();
+  const iterators = watchers.map(watcher => watcher[Symbol.asyncIterator]());
+  const pending = iterators.map((iterator, index) => iterator.next().then(result => ({ result, index })));
+  
+  while (true) {
+    const next = Promise.race(pending);
+    const event = changed.size === 0
+      ? await next
+      : await Promise.race([next, new Promise<null>(resolve => setTimeout(() => resolve(null), 100))]);
+    
+    if (event === null || event.result.done) {
+      return changed;
+    }
+    pending[event.index] = iterators[event.index].next().then(result => ({ result, index: event.index }));
+    
+    for (const path of event.result.value.paths) {
+      if (isRelevant(path, event.result.value.kind)) changed.add(path);
+    }
+  }
+}
+
+/**
+ * Produces the `ProcessedFile`s for a build: parsed from the source files,
+ * or read from the `--from-json` document.
+ */
+async function loadProcessedFiles(options: CommandLineOptions, quiet = false, cache?: BuildCache): Promise<ProcessedFile[]> {
+  if (options.fromJson) {
+    if (!quiet) {
+      console.log(`Reading: ${options.fromJson}`);
+    }
+    return await readJsonDocument(options.fromJson, options.codeUrl);
+  }
+  return await processMultipleFiles(options.files, options.codeUrl, quiet, options.fileOptions, cache);
+}
+
+/**
+ * Registers the languages described by `--comment-syntax` specs.
+ */
+function registerCommentSyntaxes(specs: string[]): void {
+  for (const spec of specs) {
+    const { name, definition } = parseCommentSyntaxSpec(spec);
+    registerLanguage(name, definition);
+  }
+}
+
+/**
+ * ## Timings
+ * 
+ * Build phases record how long they took, and `--timings` prints the
+ * report after each build along with the slowest files to parse. Phases
+ * that run once per block, like highlighting, add up the time of every
+ * call, so they show the work done rather than the wall-clock time.
+ */
+const timings = new Map<string, { ms: number; count: number }>();
+const fileTimings = new Map<string, number>();
+
+function recordTiming(phase: string, ms: number): void {
+  const entry = timings.get(phase) ?? { ms: 0, count: 0 };
+  entry.ms += ms;
+  entry.count++;
+  timings.set(phase, entry);
+}
+
+async function timed<T>(phase: string, work: () => Promise<T>): Promise<T> {
+  const start = performance.now();
+  try {
+    return await work();
+  } finally {
+    recordTiming(phase, performance.now() - start);
+  }
+}
+
+function resetTimings(): void {
+  timings.clear();
+  fileTimings.clear();
+}
+
+function formatTimings(): string {
+  const format = (ms: number) => `${ms.toFixed(1).padStart(9)} ms`;
+  const lines = ['Timings:'];
+  for (const [phase, { ms, count }] of timings) {
+    lines.push(`  ${phase.padEnd(26)}${format(ms)}${count > 1 ? ` (${count} calls)` : ''}`);
+  }
+  
+  const slowest = [...fileTimings].sort((a, b) => b[1] - a[1]).slice(0, 5);
+  if (slowest.length > 0) {
+    lines.push('Slowest files to parse:');
+    for (const [file, ms] of slowest) {
+      lines.push(`  ${file.padEnd(26)}${format(ms)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * ## Main Entry Point
+ * 
+ * Orchestrates the entire documentation generation process:
+ * 1. Parse command-line arguments (with argfile and project config support)
+ * 2. Process all input files to extract blocks (or read them from JSON)
+ * 3. Generate HTML from processed blocks
+ * 4. Output to file or stdout
+ * 5. Report statistics (unless in quiet/stdout mode)
+ * 6. Keep watching for changes when `--watch` or `--serve` is given
+ * 
+ * The main function handles all error cases and provides
+ * appropriate exit codes for CLI usage.
+ */
+async function main() {
+  try {
+    const options = await parseCommandLineArgs();
+    
+    if (!options.stdout) {
+      if (options.config) {
+        console.log(`Config: ${options.config}`);
+      }
+      if (!options.fromJson) {
+        console.log(`Processing ${options.files.length} file(s): ${options.files.join(', ')}`);
+      }
+      console.log(`Output: ${options.outputDir ?? options.outputHtml}`);
+      if (options.codeUrl) {
+        console.log(`Code URL: ${options.codeUrl}`);
+      }
+      if (options.title) {
+        console.log(`Title: ${options.title}`);
+      }
+      if (options.description) {
+        console.log(`Description: ${options.description}`);
+      }
+    }
+    
+    if (options.diff) {
+      const { html, rows } = await generateDiffReport(options, options.diff);
+      if (options.stdout) {
+        console.log(html);
+      } else {
+        await Deno.writeTextFile(options.outputHtml!, html);
+        console.log(`Generated diff: ${options.outputHtml}`);
+        console.log(`Compared ${options.files.length} files: ${summarizeDiffRows(rows) || 'no changes'}`);
+      }
+      return;
+    }
+    
+    // A JSON document has no source files to cache
+    const cache = options.cache && !options.fromJson ? await createBuildCache(options) : undefined;
+    const processedFiles = await timed('parse', () => loadProcessedFiles(options, options.stdout, cache));
+    const output = await timed('render', () => generateOutput(processedFiles, options, cache));
+    
+    if (options.stdout) {
+      console.log(output.pages.get(output.index));
+    } else {
+      await timed('write', () => writeOutput(options, output));
+    }
+    if (cache) {
+      await timed('write cache', () => saveBuildCache(cache));
+    }
+    
+    if (!options.stdout) {
+      const totalBlocks = processedFiles.reduce((sum, file) => sum + file.blocks.length, 0);
+      const totalComments = processedFiles.reduce((sum, file) => sum + file.blocks.filter(b => b.type === 'comment').length, 0);
+      const totalCodeBlocks = processedFiles.reduce((sum, file) => sum + file.blocks.filter(b => b.type === 'code').length, 0);
+      
+      console.log(options.outputDir
+        ? `Generated ${[...output.pages.keys()].filter(name => name.endsWith('.html')).length} pages in: ${options.outputDir}`
+        : `Generated ${{ html: 'HTML', markdown: 'Markdown', json: 'JSON' }[options.format ?? 'html']}: ${options.outputHtml}`);
+      console.log(`Processed ${processedFiles.length} files with ${totalBlocks} blocks (${totalComments} comments, ${totalCodeBlocks} code)`);
+      if (cache) {
+        console.log(`Cache: ${cache.hits} of ${processedFiles.length} file(s) unchanged`);
+      }
+    }
+    
+    if (options.timings) {
+      // Keep stdout clean for the document itself
+      (options.stdout ? console.error : console.log)(formatTimings());
+    }
+    
+    if (options.watch) {
+      await watchForChanges(options, processedFiles, output, cache);
     }
     
   } catch (error) {
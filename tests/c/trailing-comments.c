@@ -0,0 +1,19 @@
+// # Trailing and nested comments
+//
+// Consecutive line comments like these form a single block of prose,
+// while comments that share a line with code stay in the code.
+
+#include <stdio.h>
+
+static int counter = 0; // stays next to the declaration
+
+/* Comments inside a function body split the function by default;
+ * pass `--nested-comments code` to keep them in the code instead. */
+int main(void) {
+  // Count twice
+  counter++; /* trailing block comment */
+  /* leading block comment */ counter++;
+
+  printf("%d\n", counter);
+  return 0;
+}
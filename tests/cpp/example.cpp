@@ -0,0 +1,23 @@
+/**
+ * ## Greeter implementation
+ *
+ * Falls back to the default greeting when no name is provided.
+ */
+#include "example.hpp"
+
+#include <iostream>
+
+std::string Greeter::greet(const std::string &name) const {
+  // Return personalized greeting
+  if (!name.empty()) {
+    return "Hello, " + name + "!";
+  }
+
+  return "Hello, World!";
+}
+
+/* Main execution block */
+int main() {
+  std::cout << Greeter().greet("Literate Programming") << std::endl;
+  return 0;
+}
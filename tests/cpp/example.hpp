@@ -0,0 +1,15 @@
+/**
+ * # A simple C++ literate program
+ *
+ * The header declares the greeter class.
+ */
+#pragma once
+
+#include <string>
+
+/// A greeter remembers the default greeting
+class Greeter {
+public:
+  // Greets the user by name
+  std::string greet(const std::string &name) const;
+};
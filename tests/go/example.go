@@ -0,0 +1,27 @@
+// # A simple Go literate program
+//
+// This demonstrates line and block comments in Go.
+package main
+
+import "fmt"
+
+// Single line comment explaining the constant
+const greeting = "Hello, World!"
+
+/*
+ * This is a block comment
+ * explaining the greetUser function
+ */
+func greetUser(name string) string {
+	// Return personalized greeting
+	if name != "" {
+		return fmt.Sprintf("Hello, %s!", name)
+	}
+
+	return greeting
+}
+
+// Main execution block
+func main() {
+	fmt.Println(greetUser("Literate Programming"))
+}
@@ -0,0 +1,26 @@
+/**
+ * # A simple Java literate program
+ *
+ * This demonstrates Javadoc, block and line comments in Java.
+ */
+public class Example {
+    // Single line comment explaining the constant
+    private static final String GREETING = "Hello, World!";
+
+    /**
+     * Greets the user by name, falling back to the
+     * default greeting when no name is provided
+     */
+    static String greetUser(String name) {
+        if (name != null) {
+            return "Hello, " + name + "!";
+        }
+
+        return GREETING;
+    }
+
+    /* Main execution block */
+    public static void main(String[] args) {
+        System.out.println(greetUser("Literate Programming"));
+    }
+}
@@ -0,0 +1,19 @@
+--[[
+# A simple Lua literate program
+
+Long comments start with `--[[` and line comments with `--`.
+]]
+
+-- The greeting used when no name is given
+local GREETING = "Hello, World!"
+
+--[[ Greets the user by name, falling back to the default greeting ]]
+local function greet(name)
+  if name then
+    return "Hello, " .. name .. "!"
+  end
+  return GREETING
+end
+
+-- Main execution block
+print(greet("Literate Programming"))
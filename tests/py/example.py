@@ -0,0 +1,32 @@
+"""
+# A simple Python literate program
+
+This demonstrates docstrings and `#` line comments in Python.
+Docstrings become prose just like comments do:
+
+    indented example blocks keep their relative indentation
+"""
+
+# Single line comment explaining the constant
+GREETING = "Hello, World!"
+
+
+class Greeter:
+    """A greeter remembers the default greeting."""
+
+    def greet(self, name=None):
+        """
+        Greets the user by name, falling back to the
+        default greeting when no name is provided.
+        """
+        # Return personalized greeting
+        if name:
+            return f"Hello, {name}!"
+
+        "Not a docstring: only the first statement counts"
+        return GREETING
+
+
+# Main execution block
+if __name__ == "__main__":
+    print(Greeter().greet("Literate Programming"))
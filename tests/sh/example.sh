@@ -0,0 +1,19 @@
+#!/bin/sh
+# # A simple shell literate program
+#
+# Consecutive `#` lines are merged into one prose block.
+
+# The greeting used when no name is given
+GREETING="Hello, World!"
+
+# Greets the user by name, falling back to the default greeting
+greet() {
+  if [ -n "$1" ]; then
+    echo "Hello, $1!" # trailing comments stay with the code
+  else
+    echo "$GREETING"
+  fi
+}
+
+# Main execution block
+greet "Literate Programming"
@@ -0,0 +1,34 @@
+/**
+ * # A simple TypeScript literate program
+ *
+ * This exercises syntax the JavaScript grammar cannot parse:
+ * generics, type annotations and decorators.
+ */
+
+// A generic container for a greeting
+interface Greeting<T extends string = string> {
+  text: T;
+}
+
+/** Logs every call to the decorated method */
+function logged(_target: unknown, key: string, descriptor: PropertyDescriptor) {
+  const original = descriptor.value;
+  descriptor.value = function (...args: unknown[]) {
+    console.log(`calling ${key}`);
+    return original.apply(this, args);
+  };
+}
+
+class Greeter {
+  /**
+   * Greets the user by name, falling back to the
+   * default greeting when no name is provided
+   */
+  @logged
+  greet(name?: string): Greeting {
+    return { text: name ? `Hello, ${name}!` : "Hello, World!" };
+  }
+}
+
+// Main execution block
+console.log(new Greeter().greet("Literate Programming").text);